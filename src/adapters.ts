@@ -0,0 +1,146 @@
+import type { EnvSource } from './env-struct.js';
+
+/** Detects and reads the environment of a particular runtime. */
+export interface EnvSourceAdapter {
+  /** Label used in diagnostics (e.g. `'Deno.env'`). */
+  readonly name: string;
+  /** Return the runtime's environment, or `undefined` when this runtime is not present. */
+  detect(): EnvSource | undefined;
+}
+
+/** A source found by `detectEnvSource()`, with the adapter that produced it. */
+export interface DetectedEnvSource {
+  readonly adapter: string;
+  readonly source: EnvSource;
+}
+
+/** Reads `globalThis.process.env` (Node, and runtimes that emulate it). */
+export const processEnvAdapter: EnvSourceAdapter = {
+  name: 'process.env',
+  detect: () => (globalThis as { process?: { env?: EnvSource } }).process?.env,
+};
+
+/** Reads `Deno.env.toObject()`; requires `--allow-env`, otherwise detection is skipped. */
+export const denoEnvAdapter: EnvSourceAdapter = {
+  name: 'Deno.env',
+  detect: () => {
+    const deno = (globalThis as { Deno?: { env?: { toObject?: () => EnvSource } } }).Deno;
+    if (typeof deno?.env?.toObject !== 'function') {
+      return undefined;
+    }
+
+    try {
+      return deno.env.toObject();
+    } catch {
+      return undefined; // PermissionDenied without --allow-env
+    }
+  },
+};
+
+/** Reads `Bun.env`. */
+export const bunEnvAdapter: EnvSourceAdapter = {
+  name: 'Bun.env',
+  detect: () => (globalThis as { Bun?: { env?: EnvSource } }).Bun?.env,
+};
+
+/**
+ * Wrap a Vite-style `import.meta.env` object as an adapter.
+ * `import.meta` is scoped to the calling module (and replaced at build time by Vite), so this library
+ * cannot read it on your behalf; register it from your app entry instead:
+ *
+ * ```ts
+ * registerEnvAdapter(importMetaEnvAdapter(import.meta.env));
+ * ```
+ *
+ * Non-string values (`DEV`, `PROD`, `SSR` booleans) are stringified so the usual coercion applies.
+ */
+export function importMetaEnvAdapter(env: Record<string, unknown> | undefined): EnvSourceAdapter {
+  return {
+    name: 'import.meta.env',
+    detect: () => (env ? toEnvSource(env) : undefined),
+  };
+}
+
+/**
+ * Convert a Cloudflare Workers `env` bindings object into an `EnvSource`.
+ * Strings, numbers, and booleans are kept as strings; plain JSON vars (objects/arrays) are
+ * serialized so object-like schemas can parse them. Service bindings such as KV namespaces,
+ * Durable Objects, and queues are skipped.
+ *
+ * @example
+ * ```ts
+ * export default {
+ *   fetch(request, bindings) {
+ *     const env = Env.fromZod(schema, fromCloudflareBindings(bindings));
+ *   },
+ * };
+ * ```
+ */
+export function fromCloudflareBindings(bindings: Record<string, unknown>): EnvSource {
+  return toEnvSource(bindings);
+}
+
+const builtinAdapters: readonly EnvSourceAdapter[] = [
+  processEnvAdapter,
+  denoEnvAdapter,
+  bunEnvAdapter,
+];
+const registeredAdapters: EnvSourceAdapter[] = [];
+
+/**
+ * Register an adapter consulted by `Env` factories when no `source` is passed.
+ * Registered adapters are tried most-recent first, before the built-in `process.env`, `Deno.env`,
+ * and `Bun.env` detectors. Returns a function that unregisters the adapter.
+ */
+export function registerEnvAdapter(adapter: EnvSourceAdapter): () => void {
+  registeredAdapters.unshift(adapter);
+  return () => {
+    const index = registeredAdapters.indexOf(adapter);
+    if (index !== -1) {
+      registeredAdapters.splice(index, 1);
+    }
+  };
+}
+
+/** Names of every adapter in detection order. */
+export function listEnvAdapters(): string[] {
+  return [...registeredAdapters, ...builtinAdapters].map((adapter) => adapter.name);
+}
+
+/** Return the first runtime source any adapter detects, or `undefined` when none apply. */
+export function detectEnvSource(): DetectedEnvSource | undefined {
+  for (const adapter of [...registeredAdapters, ...builtinAdapters]) {
+    const source = adapter.detect();
+    if (source) {
+      return { adapter: adapter.name, source };
+    }
+  }
+
+  return undefined;
+}
+
+function toEnvSource(values: Record<string, unknown>): EnvSource {
+  const source: EnvSource = {};
+
+  for (const key of Object.keys(values)) {
+    const value = values[key];
+    if (typeof value === 'string') {
+      source[key] = value;
+    } else if (typeof value === 'number' || typeof value === 'boolean') {
+      source[key] = String(value);
+    } else if (Array.isArray(value) || isPlainObject(value)) {
+      source[key] = JSON.stringify(value);
+    }
+  }
+
+  return source;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
@@ -0,0 +1,678 @@
+import type { ZodType } from 'zod/v4';
+import {
+  getEnvEncodings,
+  getEnvMeta,
+  getTypeTag,
+  isObjectLike,
+  unwrapType,
+} from './schema-utils.js';
+import { isSensitive } from './redact.js';
+import { decodeEnvValue, parseBytes, parseDuration, type EnvEncoding } from './schemas.js';
+import type { EnvWarningCode } from './warnings.js';
+
+/** What a coercer knows about the value it is converting. */
+export interface EnvCoercionContext {
+  /** Declared schema key the value belongs to. */
+  readonly key: string;
+  /** Source variable the raw string was read from (includes any prefix, alias, or nesting delimiter). */
+  readonly variable: string;
+  /** Field schema as declared, including wrappers such as `.optional()` or `.default()`. */
+  readonly schema: ZodType | undefined;
+  /** `schema` with optional/default/pipe wrappers removed. */
+  readonly base: ZodType | undefined;
+  /** Zod type tag of `base`, e.g. `'number'` or `'object'`. */
+  readonly typeName: string | undefined;
+  /** The field is marked sensitive: issues and warnings must not quote the value. */
+  readonly sensitive: boolean;
+  /** Hand the value to the next matching coercer (ending with the raw string itself). */
+  next(raw: string): unknown;
+  /**
+   * Coerce `raw` as if the field were declared with `schema` (used for union members and list elements).
+   * `path` locates the part below the current value, e.g. an element index, for issues it reports.
+   */
+  coerce(raw: string, schema: ZodType, path?: readonly PropertyKey[]): unknown;
+  /**
+   * Like `coerce()`, but holds back the issues and warnings raised on the way: `commit()` reports
+   * them, and dropping the attempt discards them. Used to try union members one by one.
+   */
+  tryCoerce(raw: string, schema: ZodType, path?: readonly PropertyKey[]): EnvCoercionAttempt;
+  /** Raise a warning about this value through the env's warnings channel. */
+  warn(code: EnvWarningCode, message: string): void;
+  /**
+   * Report a validation issue (e.g. a malformed entry) at `path` below this value. It fails
+   * construction alongside any issues from the schema itself.
+   */
+  addIssue(message: string, path?: readonly PropertyKey[]): void;
+}
+
+/** Result of `context.tryCoerce()`. */
+export interface EnvCoercionAttempt {
+  readonly value: unknown;
+  /** Whether coercing `value` raised issues (e.g. a malformed `key=value` entry). */
+  readonly failed: boolean;
+  /** Report the issues and warnings raised while coercing `value`. */
+  commit(): void;
+}
+
+/**
+ * Convert a raw string into the candidate Zod validates. Return the raw string (or call `context.next`)
+ * to leave the decision to Zod or to a lower-priority coercer.
+ */
+export type EnvCoercer = (raw: string, context: EnvCoercionContext) => unknown;
+
+/**
+ * Which schemas a rule applies to: one or more Zod type tags (`'boolean'`, `['number', 'bigint']`),
+ * or a predicate on the unwrapped schema.
+ */
+export type EnvCoercerMatch =
+  | string
+  | readonly string[]
+  | ((base: ZodType | undefined, typeName: string | undefined) => boolean);
+
+export interface EnvCoercerRule {
+  readonly match: EnvCoercerMatch;
+  readonly coerce: EnvCoercer;
+}
+
+/** Options consumed by `createCoercion()`; mirrors the matching `EnvOptions` fields. */
+interface CoercionOptions {
+  readonly coercers?: readonly EnvCoercerRule[];
+  readonly keyCoercers?: Readonly<Record<string, EnvCoercer>>;
+}
+
+/** A value to coerce and where it came from. */
+export interface CoercionTarget {
+  readonly key: string;
+  readonly variable: string;
+  readonly schema: ZodType | undefined;
+  /** Nested leaves (via `nestedDelimiter`) skip per-key coercers, which apply to the whole key. */
+  readonly nested?: boolean;
+  /** Location of the value below its key (nested fields, list indexes). */
+  readonly path?: readonly PropertyKey[];
+  /** Treat the value as sensitive even if its schema is not marked (e.g. it was decrypted). */
+  readonly sensitive?: boolean;
+}
+
+/** Options for `delimitedList()`. */
+export interface DelimitedListOptions {
+  /** Separator between elements (default `','`). */
+  readonly separator?: string | RegExp;
+  /** Trim whitespace around each element (default `true`). */
+  readonly trim?: boolean;
+}
+
+/**
+ * Rule that reads array, set, and tuple fields from delimited values such as `a.com,b.com`.
+ * Each element goes through the usual coercion for its schema (so `z.array(z.number())` gets numbers);
+ * values starting with `[` are still parsed as JSON. An empty value is an empty list.
+ * The default registry includes `delimitedList()`; add your own instance to `coercers` (or its
+ * `coerce` to `keyCoercers`) for a different separator.
+ *
+ * @example `{ coercers: [delimitedList({ separator: ';' })] }`
+ */
+export function delimitedList(options: DelimitedListOptions = {}): EnvCoercerRule {
+  const { separator = ',', trim = true } = options;
+
+  return Object.freeze({
+    match: ['ZodArray', 'array', 'ZodSet', 'set', 'ZodTuple', 'tuple'],
+    coerce: (raw: string, context: EnvCoercionContext) => {
+      const isSet = context.typeName === 'ZodSet' || context.typeName === 'set';
+      if (raw.trim().startsWith('[')) {
+        const parsed = context.next(raw);
+        return isSet && Array.isArray(parsed) ? new Set(parsed) : parsed;
+      }
+
+      const parts = raw.trim() === '' ? [] : raw.split(separator);
+      const items = parts.map((part, index) => {
+        const element = elementSchema(context.base, index);
+        const item = trim ? part.trim() : part;
+        return element ? context.coerce(item, element, [index]) : item;
+      });
+      return isSet ? new Set(items) : items;
+    },
+  });
+}
+
+/** Options for `keyValueMap()`. */
+export interface KeyValueMapOptions {
+  /** Separator between entries (default `';'`). */
+  readonly entrySeparator?: string;
+  /** Separator between a key and its value (default `'='`). */
+  readonly pairSeparator?: string;
+}
+
+/**
+ * Rule that reads record and map fields from `key=value` pairs such as `auth=https://x/auth;billing=https://x/billing`.
+ * Keys and values are trimmed; wrap either in double quotes or prefix a character with `\` to keep
+ * separators (or whitespace) literally. Values are coerced with the value schema, so `z.record(z.number())`
+ * gets numbers; map keys are coerced with the key schema. Values starting with `{` are still parsed as JSON.
+ * Entries without a pair separator and duplicate keys are reported as validation issues.
+ * The default registry includes `keyValueMap()`; add your own instance for other separators.
+ *
+ * @example `{ coercers: [keyValueMap({ entrySeparator: ',', pairSeparator: ':' })] }`
+ */
+export function keyValueMap(options: KeyValueMapOptions = {}): EnvCoercerRule {
+  const { entrySeparator = ';', pairSeparator = '=' } = options;
+
+  return Object.freeze({
+    match: ['ZodRecord', 'record', 'ZodMap', 'map'],
+    coerce: (raw: string, context: EnvCoercionContext) => {
+      const isMap = context.typeName === 'ZodMap' || context.typeName === 'map';
+      if (raw.trim().startsWith('{')) {
+        const parsed = context.next(raw);
+        return isMap && isPlainObject(parsed) ? new Map(Object.entries(parsed)) : parsed;
+      }
+
+      const def = context.base?._def as unknown as
+        | { keyType?: ZodType; valueType?: ZodType }
+        | undefined;
+      const entries: Array<[unknown, unknown]> = [];
+      const seen = new Set<string>();
+
+      for (const entry of splitUnquoted(raw, entrySeparator)) {
+        if (entry.trim() === '') {
+          continue; // tolerate a trailing separator
+        }
+
+        const [rawKey, ...rest] = splitUnquoted(entry, pairSeparator, 2);
+        const key = unquote(rawKey);
+        if (rest.length === 0) {
+          context.addIssue(
+            `Expected "key${pairSeparator}value"${context.sensitive ? '' : ` but found "${key}"`}`,
+          );
+          continue;
+        }
+        if (seen.has(key)) {
+          context.addIssue(`Duplicate key "${key}"`, [key]);
+          continue;
+        }
+        seen.add(key);
+
+        const value = unquote(rest[0]);
+        entries.push([
+          isMap && def?.keyType ? context.coerce(key, def.keyType, [key]) : key,
+          def?.valueType ? context.coerce(value, def.valueType, [key]) : value,
+        ]);
+      }
+
+      return isMap ? new Map(entries) : Object.fromEntries(entries);
+    },
+  });
+}
+
+// `envSchemas` helpers: matched by their metadata, ahead of the type-based rules below.
+const durationRule: EnvCoercerRule = {
+  match: envType('duration'),
+  coerce: (raw, context) =>
+    parseUnits(raw, context, parseDuration, 'a duration such as "30s", "5m", or "1h30m"'),
+};
+
+const bytesRule: EnvCoercerRule = {
+  match: envType('bytes'),
+  coerce: (raw, context) =>
+    parseUnits(raw, context, parseBytes, 'a size such as "512KiB" or "2GB"'),
+};
+
+const epochRule: EnvCoercerRule = {
+  match: envType('epoch'),
+  coerce: (raw, context) =>
+    parseUnits(raw, context, parseEpoch, 'a Unix timestamp in milliseconds'),
+};
+
+const jsonSchemaRule: EnvCoercerRule = {
+  match: envType('json'),
+  coerce: (raw, context) => {
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      context.addIssue(
+        context.sensitive ? 'Invalid JSON' : `Invalid JSON: ${(error as Error).message}`,
+      );
+      return raw;
+    }
+  },
+};
+
+const enumCIRule: EnvCoercerRule = {
+  match: envType('enumCI'),
+  coerce: (raw, context) => matchValue(raw, enumValues(context.base), true),
+};
+
+const jsonRule: EnvCoercerRule = {
+  match: (_base, typeName) => typeName !== undefined && isObjectLike(typeName),
+  coerce: (raw, context) => {
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      warnJsonFallback(context, error);
+      return raw; // invalid JSON; schema.parse will surface a clear error
+    }
+  },
+};
+
+const numberRule: EnvCoercerRule = {
+  match: ['ZodNumber', 'number'],
+  coerce: (raw) => {
+    const normalized = raw.trim();
+    if (normalized === '') {
+      return raw;
+    }
+
+    const n = Number(normalized);
+    return Number.isNaN(n) ? raw : n;
+  },
+};
+
+// Booleans: true/false/1/0/on/off/yes/no (case-insensitive).
+const booleanRule: EnvCoercerRule = {
+  match: ['ZodBoolean', 'boolean'],
+  coerce: (raw) => {
+    const v = raw.trim().toLowerCase();
+
+    if (v === 'true' || v === '1' || v === 'on' || v === 'yes') {
+      return true;
+    } else if (v === 'false' || v === '0' || v === 'off' || v === 'no') {
+      return false;
+    } else {
+      return raw; // let Zod produce a precise error
+    }
+  },
+};
+
+const bigintRule: EnvCoercerRule = {
+  match: ['ZodBigInt', 'bigint'],
+  coerce: (raw) => {
+    const normalized = raw.trim();
+    if (normalized === '') {
+      return raw;
+    }
+
+    try {
+      return BigInt(normalized);
+    } catch {
+      return raw;
+    }
+  },
+};
+
+// Dates: ISO 8601 dates and date-times only, so `2024` is not read as a timestamp (see `envSchemas.epoch()`).
+const ISO_DATE =
+  /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+const dateRule: EnvCoercerRule = {
+  match: ['ZodDate', 'date'],
+  coerce: (raw) => {
+    const normalized = raw.trim();
+    if (!ISO_DATE.test(normalized)) {
+      return raw;
+    }
+
+    const date = new Date(normalized);
+    return Number.isNaN(date.getTime()) ? raw : date;
+  },
+};
+
+// Enums (including `z.nativeEnum()`): map the raw string onto a declared value, so numeric members match.
+const enumRule: EnvCoercerRule = {
+  match: ['ZodEnum', 'enum', 'ZodNativeEnum', 'nativeEnum'],
+  coerce: (raw, { base }) => matchValue(raw, enumValues(base), false),
+};
+
+const literalRule: EnvCoercerRule = {
+  match: ['ZodLiteral', 'literal'],
+  coerce: (raw, { base }) => {
+    const def = base?._def as unknown as
+      | { values?: readonly unknown[]; value?: unknown }
+      | undefined;
+    return matchValue(raw, def?.values ?? (def && 'value' in def ? [def.value] : []), false);
+  },
+};
+
+// Unions: coerce for each member in order and keep the first candidate that member accepts without
+// coercion issues (else the first it accepts at all), reporting only that member's issues and warnings.
+const unionRule: EnvCoercerRule = {
+  match: ['ZodUnion', 'union', 'ZodDiscriminatedUnion', 'discriminatedUnion'],
+  coerce: (raw, context) => {
+    const options = (context.base?._def as unknown as { options?: readonly ZodType[] } | undefined)
+      ?.options;
+
+    let fallback: EnvCoercionAttempt | undefined;
+    for (const option of options ?? []) {
+      const attempt = context.tryCoerce(raw, option);
+      if (!accepts(option, attempt.value)) {
+        continue;
+      }
+      if (!attempt.failed) {
+        attempt.commit();
+        return attempt.value;
+      }
+      fallback ??= attempt;
+    }
+
+    if (fallback) {
+      fallback.commit();
+      return fallback.value;
+    }
+    return context.next(raw);
+  },
+};
+
+// Strings: preserve raw value.
+const stringRule: EnvCoercerRule = {
+  match: ['ZodString', 'string'],
+  coerce: (raw) => raw,
+};
+
+// Fallback: attempt JSON first; if parse fails, keep original string.
+const fallbackRule: EnvCoercerRule = {
+  match: () => true,
+  coerce: (raw, context) => {
+    const trimmed = raw.trim();
+    if (trimmed === '' || !(trimmed.startsWith('{') || trimmed.startsWith('['))) {
+      return raw;
+    }
+
+    try {
+      return JSON.parse(trimmed);
+    } catch (error) {
+      warnJsonFallback(context, error);
+      return raw;
+    }
+  },
+};
+
+/**
+ * Built-in coercion, consulted after every custom rule: `envSchemas` durations, byte sizes,
+ * timestamps, JSON values, and case-insensitive enums, then comma-separated (or JSON) lists for arrays,
+ * sets, and tuples, `key=value;…` pairs (or JSON) for records and maps, JSON for objects, numbers,
+ * booleans (`true`/`false`/`1`/`0`/`on`/`off`/`yes`/`no`), bigints, ISO 8601 dates, enum and literal values,
+ * union members in order, strings as-is, and JSON-looking values otherwise.
+ */
+export const defaultEnvCoercers: readonly EnvCoercerRule[] = Object.freeze([
+  durationRule,
+  bytesRule,
+  epochRule,
+  jsonSchemaRule,
+  enumCIRule,
+  delimitedList(),
+  keyValueMap(),
+  jsonRule,
+  numberRule,
+  booleanRule,
+  bigintRule,
+  dateRule,
+  enumRule,
+  literalRule,
+  unionRule,
+  stringRule,
+  fallbackRule,
+]);
+
+/**
+ * Opt-in rule that matches enum values ignoring case and surrounding whitespace, returning the
+ * declared spelling (`'INFO'` becomes `'info'`). Add it to `coercers`, or use its `coerce` in `keyCoercers`
+ * to limit it to particular keys.
+ */
+export const caseInsensitiveEnums: EnvCoercerRule = Object.freeze({
+  match: enumRule.match,
+  coerce: (raw: string, context: EnvCoercionContext) => {
+    const value = matchValue(raw, enumValues(context.base), true);
+    return value === raw ? context.next(raw) : value;
+  },
+});
+
+const registeredCoercers: EnvCoercerRule[] = [];
+
+/**
+ * Register a coercer rule for every `Env` built afterwards. Global rules are tried most-recent first,
+ * after per-call `coercers` and before `defaultEnvCoercers`. Returns a function that unregisters the rule.
+ */
+export function registerEnvCoercer(rule: EnvCoercerRule): () => void {
+  registeredCoercers.unshift(rule);
+  return () => {
+    const index = registeredCoercers.indexOf(rule);
+    if (index !== -1) {
+      registeredCoercers.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Snapshot the coercer chain for one `Env` construction: per-key coercer, then per-call rules,
+ * then global rules, then the defaults. Values of `envSchemas.base64()` (etc.) fields are decoded
+ * before the chain runs. `undefined` raw values are never coerced.
+ */
+export function createCoercion(
+  options: CoercionOptions,
+  report: CoercionReport,
+): (raw: string | undefined, target: CoercionTarget) => unknown {
+  const rules = [...(options.coercers ?? []), ...registeredCoercers, ...defaultEnvCoercers];
+
+  const coerce = (
+    raw: string | undefined,
+    target: CoercionTarget,
+    report: CoercionReport,
+  ): unknown => {
+    if (raw == null) {
+      return undefined;
+    }
+
+    const base = unwrapType(target.schema);
+    const typeName = getTypeTag(base?._def);
+    const sensitive = target.sensitive === true || isSensitive(target.schema);
+    const matching = rules.filter((rule) => matches(rule.match, base, typeName));
+    const keyCoercer = target.nested ? undefined : options.keyCoercers?.[target.key];
+    const chain = matching.map((rule) => rule.coerce);
+    if (keyCoercer) {
+      chain.unshift(keyCoercer);
+    }
+
+    const run = (index: number, value: string): unknown => {
+      const coercer = chain[index];
+      if (!coercer) {
+        return value;
+      }
+
+      return coercer(value, {
+        key: target.key,
+        variable: target.variable,
+        schema: target.schema,
+        base,
+        typeName,
+        sensitive,
+        next: (nextRaw) => run(index + 1, nextRaw),
+        coerce: (memberRaw, schema, path = []) =>
+          coerce(memberRaw, memberTarget(target, schema, path), report),
+        tryCoerce: (memberRaw, schema, path = []) => {
+          const held: Array<(to: CoercionReport) => void> = [];
+          let failed = false;
+          const value = coerce(memberRaw, memberTarget(target, schema, path), {
+            warn: (...args) => held.push((to) => to.warn(...args)),
+            addIssue: (...args) => {
+              failed = true;
+              held.push((to) => to.addIssue(...args));
+            },
+          });
+          return { value, failed, commit: () => held.forEach((replay) => replay(report)) };
+        },
+        warn: (code, message) => report.warn(target, code, message),
+        addIssue: (message, path = []) => report.addIssue(target, message, path),
+      });
+    };
+
+    let decoded = raw;
+    for (const encoding of getEnvEncodings(target.schema)) {
+      try {
+        decoded = decodeEnvValue(decoded, encoding as EnvEncoding);
+      } catch (error) {
+        report.addIssue(target, (error as Error).message, []);
+        return raw;
+      }
+    }
+
+    return run(0, decoded);
+  };
+
+  return (raw, target) => coerce(raw, target, report);
+}
+
+/** Where coercion sends its warnings and issues. */
+interface CoercionReport {
+  warn(target: CoercionTarget, code: EnvWarningCode, message: string): void;
+  addIssue(target: CoercionTarget, message: string, path: readonly PropertyKey[]): void;
+}
+
+function memberTarget(
+  target: CoercionTarget,
+  schema: ZodType,
+  path: readonly PropertyKey[],
+): CoercionTarget {
+  return { ...target, schema, nested: true, path: [...(target.path ?? []), ...path] };
+}
+
+function matches(
+  match: EnvCoercerMatch,
+  base: ZodType | undefined,
+  typeName: string | undefined,
+): boolean {
+  if (typeof match === 'function') {
+    return match(base, typeName);
+  }
+  if (typeof match === 'string') {
+    return match === typeName;
+  }
+
+  return typeName !== undefined && match.includes(typeName);
+}
+
+function envType(type: string): EnvCoercerMatch {
+  return (base) => getEnvMeta(base)?.envType === type;
+}
+
+/** Convert a value with units (or a timestamp), reporting an issue (instead of Zod's type error) when it does not parse. */
+function parseUnits(
+  raw: string,
+  context: EnvCoercionContext,
+  parse: (raw: string) => number | Date | undefined,
+  expected: string,
+): unknown {
+  if (raw.trim() === '') {
+    return raw;
+  }
+
+  const value = parse(raw);
+  if (value === undefined) {
+    context.addIssue(
+      `Expected ${expected}${context.sensitive ? '' : ` but found "${raw.trim()}"`}`,
+    );
+    return raw;
+  }
+  return value;
+}
+
+function parseEpoch(raw: string): Date | undefined {
+  const normalized = raw.trim();
+  const date = /^-?\d+$/.test(normalized) ? new Date(Number(normalized)) : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+}
+
+function enumValues(base: ZodType | undefined): unknown[] {
+  const entries = (base?._def as unknown as { entries?: Record<string, unknown> } | undefined)
+    ?.entries;
+  return entries ? [...new Set(Object.values(entries))] : [];
+}
+
+/**
+ * Find the declared value whose string form equals `raw`. Exact string values win; numbers, bigints,
+ * booleans, and `null` match their string form (trimmed). Returns `raw` when nothing matches.
+ */
+function matchValue(raw: string, values: readonly unknown[], caseInsensitive: boolean): unknown {
+  if (values.includes(raw)) {
+    return raw;
+  }
+
+  const normalized = raw.trim();
+  const fold = (value: string) => (caseInsensitive ? value.toLowerCase() : value);
+  const target = fold(normalized);
+  const strings = values.filter((value) => typeof value === 'string');
+  const others = values.filter((value) => typeof value !== 'string' && value !== undefined);
+
+  return (
+    strings.find((value) => fold(value as string) === target) ??
+    others.find((value) => fold(String(value)) === target) ??
+    raw
+  );
+}
+
+/** Schema for the element at `index` of an array, set, or tuple (tuples fall back to their rest schema). */
+function elementSchema(base: ZodType | undefined, index: number): ZodType | undefined {
+  const def = base?._def as unknown as
+    | { element?: ZodType; valueType?: ZodType; items?: readonly ZodType[]; rest?: ZodType | null }
+    | undefined;
+  if (def?.items) {
+    return def.items[index] ?? def.rest ?? undefined;
+  }
+
+  return def?.element ?? def?.valueType;
+}
+
+/**
+ * Split on `separator` outside double quotes, skipping `\`-escaped characters. Parts keep their
+ * quotes and escapes so `unquote()` can trim them first. Stops after `limit` parts.
+ */
+function splitUnquoted(text: string, separator: string, limit = Infinity): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length && parts.length < limit - 1; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && text.startsWith(separator, i)) {
+      parts.push(text.slice(start, i));
+      start = i + separator.length;
+      i = start - 1;
+    }
+  }
+
+  parts.push(text.slice(start));
+  return parts;
+}
+
+/** Trim a key or value, then drop double quotes and resolve `\` escapes. */
+function unquote(part: string): string {
+  let output = '';
+  const trimmed = part.trim();
+
+  for (let i = 0; i < trimmed.length; i++) {
+    if (trimmed[i] === '\\' && i + 1 < trimmed.length) {
+      output += trimmed[++i];
+    } else if (trimmed[i] !== '"') {
+      output += trimmed[i];
+    }
+  }
+
+  return output;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function accepts(schema: ZodType, candidate: unknown): boolean {
+  try {
+    return schema.safeParse(candidate).success;
+  } catch {
+    return false; // async checks cannot run here
+  }
+}
+
+function warnJsonFallback(context: EnvCoercionContext, error: unknown): void {
+  const detail = context.sensitive ? '' : ` (${(error as Error).message})`;
+  context.warn(
+    'JSON_FALLBACK',
+    `Env: ${context.variable} is not valid JSON${detail}; using the raw string`,
+  );
+}
@@ -0,0 +1,249 @@
+import type { EnvFileReader, EnvSource } from './env-struct.js';
+import { recordSourceProvenance, type SourceKeyProvenance } from './provenance.js';
+
+/** A single assignment read from a dotenv file. */
+export interface DotenvEntry {
+  readonly key: string;
+  readonly value: string;
+  /** 1-based line where the assignment starts. */
+  readonly line: number;
+}
+
+export interface DotenvParseOptions {
+  /** File name used in error messages and recorded as the origin of each value. */
+  readonly filename?: string;
+}
+
+/** Options for `loadDotenv()`. */
+export interface DotenvLoadOptions {
+  /** Reads paths (e.g. `readEnvFile` from `env-struct/node`); contents need no reader. */
+  readonly readFile?: EnvFileReader;
+}
+
+/**
+ * Input accepted by `Env.fromDotenv()` and `loadDotenv()`.
+ * Bare strings containing a newline or `=` are treated as file contents; anything else is a path.
+ */
+export type DotenvInput =
+  | string
+  | {
+      readonly path: string;
+      /** Resolve to an empty source instead of throwing when the file does not exist. */
+      readonly optional?: boolean;
+    }
+  | { readonly contents: string; readonly filename?: string };
+
+/** Thrown when dotenv contents cannot be parsed. Carries the file and line of the offending assignment. */
+export class DotenvParseError extends Error {
+  public readonly file: string | undefined;
+  public readonly line: number;
+  public readonly reason: string;
+
+  constructor(reason: string, line: number, file?: string) {
+    super(`${file ?? '<dotenv>'}:${line}: ${reason}`);
+    this.name = 'DotenvParseError';
+    this.file = file;
+    this.line = line;
+    this.reason = reason;
+  }
+}
+
+const ASSIGNMENT = /^[ \t]*(?:export[ \t]+)?([A-Za-z_][A-Za-z0-9_.-]*)[ \t]*=[ \t]*/;
+
+/**
+ * Parse dotenv contents into ordered entries, preserving the line each assignment started on.
+ * Supports `export` prefixes, single/double/backtick quoting, multiline quoted values,
+ * `\n`-style escapes inside double quotes, and `#` comments (full-line or after whitespace).
+ * Later assignments of the same key are kept; `parseDotenv()` resolves them last-wins.
+ */
+export function parseDotenvEntries(
+  contents: string,
+  options: DotenvParseOptions = {},
+): DotenvEntry[] {
+  const file = options.filename;
+  const lines = contents.replace(/\r\n?/g, '\n').split('\n');
+  const entries: DotenvEntry[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1;
+    const text = lines[index];
+    const trimmed = text.trim();
+
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      continue;
+    }
+
+    const match = ASSIGNMENT.exec(text);
+    if (!match) {
+      throw new DotenvParseError(
+        `expected KEY=VALUE, got "${truncate(trimmed)}"`,
+        lineNumber,
+        file,
+      );
+    }
+
+    const key = match[1];
+    const rest = text.slice(match[0].length);
+    const quote = rest[0];
+
+    if (quote !== '"' && quote !== "'" && quote !== '`') {
+      entries.push({ key, value: stripInlineComment(rest).trim(), line: lineNumber });
+      continue;
+    }
+
+    // Quoted values may span lines; scan forward until the matching unescaped quote.
+    let body = rest.slice(1);
+    let closing = findClosingQuote(body, quote);
+    while (closing === -1 && index + 1 < lines.length) {
+      index++;
+      body += `\n${lines[index]}`;
+      closing = findClosingQuote(body, quote);
+    }
+
+    if (closing === -1) {
+      throw new DotenvParseError(`unterminated ${quote} quoted value for ${key}`, lineNumber, file);
+    }
+
+    const trailing = body.slice(closing + 1).trim();
+    if (trailing !== '' && !trailing.startsWith('#')) {
+      throw new DotenvParseError(
+        `unexpected characters after quoted value for ${key}: "${truncate(trailing)}"`,
+        index + 1,
+        file,
+      );
+    }
+
+    const inner = body.slice(0, closing);
+    entries.push({
+      key,
+      value: quote === '"' ? unescapeDoubleQuoted(inner) : inner,
+      line: lineNumber,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Parse dotenv contents into an `EnvSource`. Duplicate keys resolve last-wins.
+ * The returned record remembers where each value came from, so `env.meta[KEY].origin` reports
+ * the file and line when it is passed to any `Env` factory.
+ *
+ * @example
+ * ```ts
+ * import { Env, parseDotenv } from 'env-struct';
+ *
+ * const source = parseDotenv('PORT=3000\nexport HOST="localhost" # dev only', { filename: '.env' });
+ * const env = Env.fromZod({ PORT: z.number(), HOST: z.string() }, source);
+ * env.meta.HOST.origin; // { file: '.env', line: 2 }
+ * ```
+ */
+export function parseDotenv(contents: string, options: DotenvParseOptions = {}): EnvSource {
+  const source: Record<string, string> = {};
+  const provenance: Record<string, SourceKeyProvenance> = {};
+
+  for (const entry of parseDotenvEntries(contents, options)) {
+    source[entry.key] = entry.value;
+    provenance[entry.key] = Object.freeze({
+      origin: Object.freeze(
+        options.filename === undefined
+          ? { line: entry.line }
+          : { file: options.filename, line: entry.line },
+      ),
+    });
+  }
+
+  recordSourceProvenance(source, Object.freeze(provenance));
+  return source;
+}
+
+/**
+ * Parse dotenv contents, or read a path with `options.readFile` and parse the file, into an `EnvSource`.
+ * Reading has no default so this module stays free of Node built-ins; paths without a reader throw.
+ *
+ * @example
+ * ```ts
+ * import { loadDotenv } from 'env-struct';
+ * import { readEnvFile } from 'env-struct/node';
+ *
+ * const source = loadDotenv({ path: '.env.local', optional: true }, { readFile: readEnvFile });
+ * ```
+ */
+export function loadDotenv(input: DotenvInput, options: DotenvLoadOptions = {}): EnvSource {
+  if (typeof input === 'string') {
+    return looksLikeContents(input)
+      ? parseDotenv(input)
+      : readDotenvFile(input, false, options.readFile);
+  }
+
+  if ('path' in input) {
+    return readDotenvFile(input.path, input.optional, options.readFile);
+  }
+
+  return parseDotenv(input.contents, { filename: input.filename });
+}
+
+function readDotenvFile(
+  path: string,
+  optional: boolean | undefined,
+  readFile: EnvFileReader | undefined,
+): EnvSource {
+  if (!readFile) {
+    throw new Error(
+      `Env: cannot read "${path}" without a file reader; pass readFile (readEnvFile from 'env-struct/node' on Node)`,
+    );
+  }
+
+  const contents = readFile(path);
+  if (contents === undefined) {
+    if (optional) {
+      return {};
+    }
+    throw new Error(`Env: dotenv file "${path}" does not exist`);
+  }
+
+  return parseDotenv(contents, { filename: path });
+}
+
+function looksLikeContents(input: string): boolean {
+  return input === '' || input.includes('\n') || input.includes('=');
+}
+
+function findClosingQuote(body: string, quote: string): number {
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\' && quote === '"') {
+      i++;
+      continue;
+    }
+    if (char === quote) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+function unescapeDoubleQuoted(value: string): string {
+  return value.replace(/\\([nrt"\\])/g, (_, char: string) => {
+    switch (char) {
+      case 'n':
+        return '\n';
+      case 'r':
+        return '\r';
+      case 't':
+        return '\t';
+      default:
+        return char;
+    }
+  });
+}
+
+function stripInlineComment(value: string): string {
+  const match = /(^|[ \t])#/.exec(value);
+  return match ? value.slice(0, match.index) : value;
+}
+
+function truncate(value: string, max = 40): string {
+  return value.length > max ? `${value.slice(0, max)}…` : value;
+}
@@ -0,0 +1,83 @@
+/** A declared variable whose value in the live source differs from the one the env was built from. */
+export interface EnvDrift {
+  /** Declared key the variable feeds. */
+  readonly key: string;
+  /**
+   * Source variable (including any prefix, alias, or nested suffix): the one read now, or the one
+   * read at construction for removed variables.
+   */
+  readonly variable: string;
+  /** Value at construction (masked for sensitive keys); absent for added variables. */
+  readonly before?: string;
+  /** Value the source holds now (masked for sensitive keys); absent for removed variables. */
+  readonly after?: string;
+}
+
+/** Result of `env.verify()`. */
+export interface EnvVerifyResult {
+  /** `true` when no declared variable drifted. */
+  readonly ok: boolean;
+  /** Variables that were unset at construction and are set now. */
+  readonly added: readonly EnvDrift[];
+  /** Variables that were set at construction and are unset now. */
+  readonly removed: readonly EnvDrift[];
+  /** Variables set both times, to different values. */
+  readonly changed: readonly EnvDrift[];
+}
+
+/**
+ * Raw value read for a declared key, or for one of its nested variables. Readings are keyed by
+ * field, not variable, so an alias giving way to the canonical name counts as a change.
+ */
+export interface RawReading {
+  readonly key: string;
+  readonly variable: string;
+  readonly raw: string | undefined;
+}
+
+/**
+ * Compare two readings of the same fields. Fields are reported in the order of `before`, then
+ * fields only `after` has, so results are stable across calls.
+ */
+export function diffReadings(
+  before: ReadonlyMap<string, RawReading>,
+  after: ReadonlyMap<string, RawReading>,
+  mask: (key: string, raw: string) => string,
+): EnvVerifyResult {
+  const added: EnvDrift[] = [];
+  const removed: EnvDrift[] = [];
+  const changed: EnvDrift[] = [];
+
+  for (const field of new Set([...before.keys(), ...after.keys()])) {
+    const old = before.get(field);
+    const now = after.get(field);
+    const key = old?.key ?? now?.key ?? field;
+    const variable = now?.raw !== undefined ? now.variable : (old?.variable ?? field);
+    const oldRaw = old?.raw;
+    const newRaw = now?.raw;
+    if (oldRaw === newRaw) {
+      continue;
+    }
+
+    const drift = {
+      key,
+      variable,
+      ...(oldRaw !== undefined ? { before: mask(key, oldRaw) } : {}),
+      ...(newRaw !== undefined ? { after: mask(key, newRaw) } : {}),
+    };
+    if (oldRaw === undefined) {
+      added.push(drift);
+    } else if (newRaw === undefined) {
+      removed.push(drift);
+    } else {
+      changed.push(drift);
+    }
+  }
+
+  return {
+    ok: added.length === 0 && removed.length === 0 && changed.length === 0,
+    added,
+    removed,
+    changed,
+  };
+}
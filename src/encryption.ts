@@ -0,0 +1,7 @@
+/** Prefix of values encrypted with `encryptEnvValue()` from `env-struct/node`. */
+export const ENCRYPTED_PREFIX = 'enc:';
+
+/** Whether `raw` looks like an encrypted value (it may still fail to decrypt). */
+export function isEncryptedValue(raw: string): boolean {
+  return raw.trimStart().startsWith(ENCRYPTED_PREFIX);
+}
@@ -11,6 +11,8 @@
  * - `Env.fromZod()` for full validation via a Zod shape or effects pipeline (recommended).
  * - `Env.fromNames()` when you just need presence/absence with optional strings.
  * - `Env.fromValues()` to build an env from an object literal (handy in tests).
+ * - `Env.fromDotenv()` to validate the contents of a `.env` file without a separate dotenv package.
+ * - `Env.safeFromZod()` (and the other `safe*` variants) to get a result object instead of an exception.
  *
  * Quick start:
  * ```ts
@@ -29,10 +31,231 @@
  */
 import { z } from 'zod/v4';
 import type { ZodObject, ZodRawShape, ZodType } from 'zod/v4';
+import { detectEnvSource, listEnvAdapters } from './adapters.js';
+import { loadDotenv, type DotenvInput } from './dotenv.js';
+import { createCoercion, type EnvCoercer, type EnvCoercerRule } from './coercers.js';
+import { diffReadings, type EnvVerifyResult, type RawReading } from './drift.js';
+import { createValidationError, EnvValidationError, type IssueTarget } from './errors.js';
+import { FILE_SECRET_SUFFIX, readFileSecret } from './file-secrets.js';
+import { isEncryptedValue } from './encryption.js';
+import { createExpander } from './interpolate.js';
+import { normalizeRaw, type EnvNormalizePolicy } from './normalize.js';
+import {
+  containsSensitive,
+  isSensitive,
+  REDACTED,
+  redactRaw,
+  redactValue,
+  withRedaction,
+} from './redact.js';
+import type { EnvEncoding } from './schemas.js';
+import {
+  describeSchemaType,
+  getEnvEncodings,
+  getObjectShape,
+  getTypeTag,
+  unwrapType,
+} from './schema-utils.js';
+import { checkUndeclaredVariables, type EnvStrictOptions } from './strict.js';
+import { formatSummary, toJsonValue } from './summary.js';
+import {
+  createWarningSink,
+  type EnvWarning,
+  type EnvWarningCode,
+  type EnvWarningLevel,
+  type WarningSink,
+} from './warnings.js';
+import { resolveReferences, type EnvResolver, type ResolvedValue } from './resolvers.js';
+import {
+  getSourceProvenance,
+  snapshotSource,
+  type EnvVarOrigin,
+  type EnvVarShadowed,
+} from './provenance.js';
 import type { snakeToCamel } from './utils.js';
 
+export type { EnvVarOrigin, EnvVarShadowed } from './provenance.js';
+export type { EnvResolver, EnvResolverContext } from './resolvers.js';
+export type {
+  EnvCoercer,
+  EnvCoercionAttempt,
+  EnvCoercerMatch,
+  EnvCoercerRule,
+  EnvCoercionContext,
+} from './coercers.js';
+export type { EnvNormalizePolicy } from './normalize.js';
+export type { EnvStrictOptions, EnvUndeclaredVariable } from './strict.js';
+export type { EnvWarning, EnvWarningCode, EnvWarningLevel } from './warnings.js';
+
 export type EnvSource = Record<string, string | undefined>;
 
+/**
+ * Reads a UTF-8 text file, returning `undefined` when it does not exist. The main entry point has no
+ * file-system access (so it bundles for browsers and workers); `env-struct/node` exports `readEnvFile`.
+ */
+export type EnvFileReader = (path: string) => string | undefined;
+
+/**
+ * Turns an `enc:` value back into plaintext, throwing an `Error` with a message that is safe to show
+ * when it cannot. `env-struct/node` exports `createEnvDecryptor()` for `encryptEnvValue()` values.
+ */
+export type EnvDecryptor = (value: string) => string;
+
+/** Options shared by every `Env` factory; derived envs (`pick`/`omit`) inherit them. */
+export interface EnvOptions {
+  /**
+   * Expand `${VAR}`, `${VAR:-default}`, and `${VAR:?message}` references in raw values before coercion.
+   * References resolve against the whole source (not only declared keys); `$$` escapes a literal `$`.
+   * Cycles and failed `:?` guards throw an `EnvInterpolationError`. Defaults to `false`.
+   */
+  readonly expand?: boolean;
+  /**
+   * Resolve a declared key from its `<KEY>_FILE` sibling (Docker/Kubernetes secrets) when the key itself is absent.
+   * The file is read with `readFile` and trimmed; setting both variables, pointing at a missing or
+   * unreadable file, or omitting `readFile` throws.
+   * `env.meta[KEY].origin` records the file path and the `<KEY>_FILE` variable. Defaults to `false`.
+   */
+  readonly fileSecrets?: boolean;
+  /**
+   * Reads the dotenv paths given to `Env.fromDotenv()` and the files behind `<KEY>_FILE` secrets,
+   * e.g. `readEnvFile` from `env-struct/node`.
+   */
+  readonly readFile?: EnvFileReader;
+  /**
+   * Namespace prepended to every declared key when reading the source, so `{ PORT }` with
+   * `prefix: 'BILLING_'` reads `BILLING_PORT`. `data`, `camel`, and `keys` keep the unprefixed names;
+   * `env.meta[KEY].variable` and validation errors report the real variable name.
+   */
+  readonly prefix?: string;
+  /**
+   * Populate nested `z.object()` fields from delimited variables, e.g. `DB__HOST` and `DB__POOL__MAX`
+   * for `DB: z.object({ HOST, POOL: z.object({ MAX }) })` with `nestedDelimiter: '__'`.
+   * Leaves get the usual number/boolean coercion. When `DB` also holds JSON, delimited variables
+   * override the matching JSON fields (deeper variables win). Issues on delimited leaves are reported
+   * against the flattened variable name.
+   */
+  readonly nestedDelimiter?: string;
+  /**
+   * Alternative variable names per declared key, tried in order when the canonical variable is unset.
+   * Aliases are read verbatim (no `prefix`). `env.meta[KEY].variable` reports the alias that was read.
+   *
+   * @example `{ aliases: { DATABASE_URL: ['PG_URL'] } }`
+   */
+  readonly aliases?: Readonly<Record<string, readonly string[]>>;
+  /** Called whenever a key is read from one of its `aliases` instead of the canonical name. */
+  readonly onDeprecation?: (event: EnvDeprecationEvent) => void;
+  /**
+   * What to do when the canonical variable and an alias are both set to different values:
+   * `'canonical'` (default) silently prefers the canonical name, `'error'` throws.
+   */
+  readonly aliasConflicts?: 'canonical' | 'error';
+  /**
+   * What to do when no `source` is passed and no runtime adapter (`process.env`, `Deno.env`, `Bun.env`,
+   * or one added via `registerEnvAdapter()`) finds an environment: `'warn'` (default) raises a
+   * `NO_SOURCE` warning and uses an empty source, `'empty'` does so silently, `'throw'` throws.
+   */
+  readonly missingSource?: 'empty' | 'warn' | 'throw';
+  /**
+   * Copy the source at construction, so later changes to it (e.g. to `process.env`) cannot affect
+   * `env.source` or the envs `pick()`/`omit()` derive. `env.verify()` still reads the live source.
+   */
+  readonly snapshot?: boolean;
+  /**
+   * Report source variables that look meant for this schema but are not declared, such as a
+   * misspelled `DATABSE_URL`, with the closest declared variable as a suggestion. Variables are
+   * scanned when they start with `prefix` (or, without one, with the leading `SEGMENT_` of a declared
+   * key) or match `strict.pattern`. `true` uses the defaults (`level: 'throw'`, no pattern or allowlist).
+   * Runs before validation; derived envs (`pick`/`omit`) do not repeat the scan.
+   */
+  readonly strict?: boolean | EnvStrictOptions;
+  /** Called for each non-fatal problem (see `EnvWarningCode`) as it is found; all are also kept on `env.warnings`. */
+  readonly onWarning?: (warning: EnvWarning) => void;
+  /**
+   * Per-code handling of warnings: `'warn'` (default) collects them and calls `onWarning`, `'ignore'`
+   * drops them, and `'throw'` raises an `EnvWarningError` instead.
+   *
+   * @example `{ warnings: { JSON_FALLBACK: 'throw', DEFAULT_USED: 'ignore' } }`
+   */
+  readonly warnings?: Readonly<Partial<Record<EnvWarningCode, EnvWarningLevel>>>;
+  /**
+   * Coercer rules for this call, tried before rules added with `registerEnvCoercer()` and before
+   * `defaultEnvCoercers`. Each rule matches Zod type tags or a predicate on the unwrapped schema.
+   *
+   * @example `{ coercers: [{ match: 'string', coerce: (raw) => raw.trim() }] }`
+   */
+  readonly coercers?: readonly EnvCoercerRule[];
+  /**
+   * Coercers for individual declared keys, tried before any rule. `context.next()` continues with the
+   * rules that match the key's schema. Not applied to leaves filled via `nestedDelimiter`.
+   */
+  readonly keyCoercers?: Readonly<Record<string, EnvCoercer>>;
+  /**
+   * Clean up raw values before coercion: `crlf`, `trim`, `stripQuotes`, and `emptyAsUndefined`
+   * (all off by default). Applies to every key, including delimited nested variables;
+   * `env.meta[KEY].raw` keeps the value as read and `normalized` holds what was validated.
+   *
+   * @example `{ normalize: { trim: true, emptyAsUndefined: true } }`
+   */
+  readonly normalize?: EnvNormalizePolicy;
+  /** Normalization for individual declared keys, merged over `normalize`. */
+  readonly keyNormalize?: Readonly<Record<string, EnvNormalizePolicy>>;
+  /**
+   * Decrypt values starting with `enc:`, e.g. with `createEnvDecryptor(key)` from `env-struct/node`.
+   * Decryption runs after `_FILE` and resolver reads and before normalization; values it throws for
+   * are reported as issues on their key, and decrypted keys count as sensitive. Without this option
+   * `enc:` values are left as they are.
+   */
+  readonly decrypt?: EnvDecryptor;
+}
+
+/** Options for `env.toObject()`. */
+export interface EnvToObjectOptions {
+  /** `'original'` (default) uses the declared names, `'camel'` the names of `env.camel`. */
+  readonly keys?: 'original' | 'camel';
+  /** Replace values of sensitive fields with `[REDACTED]` (default `true`). */
+  readonly redact?: boolean;
+  /** Also include values a transform added beyond the declared keys (default `false`). */
+  readonly includeDerived?: boolean;
+}
+
+/** Passed to `onDeprecation` when a deprecated alias supplied a value. */
+export interface EnvDeprecationEvent {
+  /** Declared schema key. */
+  readonly key: string;
+  /** Canonical variable that should be set instead (includes any `prefix`). */
+  readonly variable: string;
+  /** Deprecated alias that was actually read. */
+  readonly alias: string;
+}
+
+/** Options accepted by `Env.fromZodAsync()`. */
+export interface EnvAsyncOptions extends EnvOptions {
+  /**
+   * Resolvers keyed by URI scheme. A raw value such as `secret://db-password` is passed to
+   * `resolvers.secret('db-password', { key, raw })` and replaced by the awaited result.
+   */
+  readonly resolvers?: Readonly<Record<string, EnvResolver>>;
+}
+
+/** Work done ahead of construction by `Env.fromZodAsync()` or a parent env. */
+interface PreparedValues {
+  /** Raw values fetched by resolvers; derived envs reuse them instead of resolving again. */
+  readonly resolved: Readonly<Record<string, ResolvedValue>>;
+  /**
+   * Output of `parseAsync()`, or the picked part of it for envs derived from an async env (whose
+   * async checks cannot re-run synchronously). Other derived envs omit it and parse synchronously.
+   */
+  readonly parsed?: Record<string, unknown>;
+  /** Raw values `fromZodAsync()` collected, so files are read and `${VAR}` expanded only once. */
+  readonly raw?: RawValues;
+  /** Warnings already raised while building the candidate passed to `parseAsync()`. */
+  readonly sink?: WarningSink;
+  /** Built by `pick()`/`omit()`: the parent already reported warnings through `onWarning`. */
+  readonly derived?: boolean;
+  /** Source the parent was built from, before any `snapshot` copy, for `verify()`. */
+  readonly live?: EnvSource;
+}
+
 /** Helper to infer per-key value types from the Zod object. */
 export type InferEnv<S extends ZodRawShape> = { [K in keyof S]: z.infer<S[K]> };
 
@@ -65,10 +288,47 @@ type EnvShapeFromRecord<Source extends EnvSource> = {
 /** Per-variable reflection and value. */
 export interface EnvVar<TValue, TName extends string> {
   readonly name: TName;
+  /** Source variable actually read, when it differs from `name` (e.g. with `prefix` or an alias). */
+  readonly variable?: string;
   readonly val: TValue;
+  /** Value read for this key (after `expand`, `_FILE`, resolvers, or decryption), before normalization. */
   readonly raw: string | undefined;
+  /** Value after the `normalize` policy, present when the policy changed `raw` (`undefined` if it emptied it). */
+  readonly normalized?: string | undefined;
+  /** Unexpanded source value when `expand` substituted references to produce `raw`. */
+  readonly template?: string;
+  /** `scheme://reference` that `Env.fromZodAsync()` resolved into `raw`. */
+  readonly reference?: string;
+  /** `enc:` value that `decrypt` decrypted into `raw`; such entries are always `sensitive`. */
+  readonly encrypted?: string;
+  /** Where `raw` was read from, when the source records it (e.g. sources built by `parseDotenv()`). */
+  readonly origin?: EnvVarOrigin;
+  /** Lower-priority values this key overrode when the source came from `composeSources()`. */
+  readonly shadowed?: readonly EnvVarShadowed[];
+  /** Raw values of delimited variables (e.g. `DB__HOST`) merged into this key via `nestedDelimiter`. */
+  readonly nested?: Readonly<Record<string, string>>;
+  /**
+   * Set for fields marked sensitive (`envSchemas.secret()`, `envSchemas.sensitive()`, or
+   * `.meta({ sensitive: true })`): `raw`, `normalized`, `template`, and `shadowed` values hold masked
+   * previews, and printing or serializing the entry masks `val`. Use `env.reveal(KEY)` for the real values.
+   */
+  readonly sensitive?: boolean;
+  /** Encodings decoded before coercion (outermost first) for `envSchemas.base64()` and similar fields; `raw` stays encoded. */
+  readonly encoding?: readonly EnvEncoding[];
 }
 
+/**
+ * Outcome of a `safe*` factory: the `Env` on success, otherwise the validation error plus `meta`
+ * entries for every key that parsed on its own.
+ */
+export type EnvSafeResult<TEnv extends EnvImpl<any, any>> =
+  | { readonly success: true; readonly env: TEnv }
+  | {
+      readonly success: false;
+      readonly error: EnvValidationError;
+      readonly partial: Partial<TEnv['meta']>;
+    };
+
 type ZodTypeAny = z.ZodType<any, any, any>;
 type ZodRecordSchema = z.ZodType<Record<string, unknown>, any, any>;
 
@@ -130,17 +390,37 @@ export type EnvPick<
   Keys extends keyof EnvShapeOf<TEnv> & string,
 > = EnvImpl<PickShape<EnvShapeOf<TEnv>, Keys>, PickParsed<EnvParsedOf<TEnv>, Keys>>;
 
-/** Resolve a default env source that works in Node and non-Node runtimes. */
-const getDefaultEnvSource = (): EnvSource => {
-  const env = (globalThis as { process?: { env?: EnvSource } }).process?.env;
-  return env ?? {};
+/** Resolve a default env source that works in Node and non-Node runtimes via the adapter registry. */
+const getDefaultEnvSource = (options: EnvOptions, sink: WarningSink): EnvSource => {
+  const detected = detectEnvSource();
+  if (detected) {
+    return detected.source;
+  }
+
+  const behavior = options.missingSource ?? 'warn';
+  if (behavior === 'empty') {
+    return {};
+  }
+
+  const message =
+    `Env: no environment source found (checked ${listEnvAdapters().join(', ')}); ` +
+    'pass a source explicitly or register one with registerEnvAdapter()';
+  if (behavior === 'throw') {
+    throw new Error(message);
+  }
+
+  sink.emit({
+    code: 'NO_SOURCE',
+    message: `${message}. Every variable will be treated as missing.`,
+  });
+  return {};
 };
 
 /**
  * Opinionated, construction-time validator for environment variables.
  * - Single z.object(...) schema enables cross-field rules via check()/superRefine.
- * - Source is DI-friendly (defaults to process.env).
- * - Validation happens on construction; throws ZodError on failure.
+ * - Source is DI-friendly (defaults to the detected runtime env, usually process.env).
+ * - Validation happens on construction; throws EnvValidationError (also a ZodError) on failure.
  * - Ergonomics: `env.data` exposes parsed values directly, `env.meta.MY_VAR.val` for individual access.
  */
 class EnvImpl<S extends ZodRawShape, Parsed extends Record<string, unknown> = DefaultParsed<S>> {
@@ -148,7 +428,7 @@ class EnvImpl<S extends ZodRawShape, Parsed extends Record<string, unknown> = De
   public readonly schema: ZodObject<S>;
   /** Parser that may wrap the base schema (e.g. via transform). */
   private readonly parser: ZodRecordSchema;
-  /** Raw env-var source. */
+  /** Raw env-var source (a frozen copy with the `snapshot` option). */
   public readonly source: EnvSource;
   /** Per-key metadata including parsed and raw values. */
   public readonly meta: MetaByKey<S, Parsed>;
@@ -158,22 +438,77 @@ class EnvImpl<S extends ZodRawShape, Parsed extends Record<string, unknown> = De
   public readonly camel: CamelDataAccessor<Parsed>;
   /** Declared environment variable names preserved as a literal map. */
   public readonly keys: EnvVarNames<S>;
+  /** Non-fatal problems found during construction, in the order they were raised. */
+  public readonly warnings: readonly EnvWarning[];
+  /** Factory options, reused when deriving envs via `pick()`/`omit()`. */
+  private readonly options: EnvOptions;
+  /** Values fetched by async resolvers, reused when deriving envs. */
+  private readonly resolved: Readonly<Record<string, ResolvedValue>>;
+  /** `parseAsync()` output for envs built by `fromZodAsync()`, reused when deriving envs. */
+  private readonly asyncParsed: Record<string, unknown> | undefined;
+  /** Declared (or transform-added) key behind each `camel` property. */
+  private readonly camelKeys: ReadonlyMap<string, string>;
+  /** Source as passed (or detected), which `verify()` re-reads even when `source` is a snapshot. */
+  private readonly liveSource: EnvSource;
 
   private constructor(
     schema: ZodObject<S>,
     source: EnvSource | undefined,
     parser: ZodRecordSchema,
+    options: EnvOptions = {},
+    prepared?: PreparedValues,
   ) {
     this.schema = schema;
     this.parser = parser;
-    this.source = source ?? getDefaultEnvSource();
+    this.options = options;
+    this.resolved = prepared?.resolved ?? {};
+    this.asyncParsed = prepared?.parsed;
+    const sink = prepared?.sink ?? createWarningSink(options, !prepared?.derived);
+    const given = source ?? getDefaultEnvSource(options, sink);
+    this.liveSource = prepared?.live ?? given;
+    this.source = options.snapshot && !prepared?.derived ? snapshotSource(given) : given;
     const declaredKeys = Object.keys(this.schema.shape) as Array<keyof S & string>;
     const declaredSet = new Set(declaredKeys as readonly (keyof S & string)[]);
     this.keys = createEnvVarNames(declaredKeys as readonly (keyof S & string)[]);
-    // Build candidates from raw strings with minimal coercion.
-    const { parsed, rawByKey } = buildValues<S, Parsed>(this.schema, this.parser, this.source);
-    const parsedValues = parsed;
-    const parsedRecord = parsedValues as unknown as Record<string, unknown>;
+    // Parents and async factories already reported deprecated aliases through `onDeprecation`.
+    const rawValues =
+      prepared?.raw ??
+      collectRawValues(
+        this.schema,
+        this.source,
+        prepared ? { ...this.options, onDeprecation: undefined } : this.options,
+        this.resolved,
+      );
+    if (!prepared) {
+      // Derived envs were already scanned by their parent; async factories scan before resolving.
+      checkStrict(this.schema, this.source, this.options, sink, rawValues.expandedVariables);
+    }
+    // Build candidates from raw strings with minimal coercion, then enforce field-level and
+    // cross-field rules. Async factories hand in a `parseAsync()` result instead.
+    let parsedRecord = prepared?.parsed;
+    if (!parsedRecord) {
+      const candidate = buildCandidate(this.schema, rawValues, sink, this.options);
+      try {
+        parsedRecord = parseCandidate(this.parser, candidate);
+      } catch (error) {
+        throw toValidationError(error, this.schema, this.source, rawValues, candidate);
+      }
+    }
+    for (const key of declaredKeys) {
+      if (
+        rawValues.rawByKey[key] === undefined &&
+        !rawValues.nestedByKey[key] &&
+        parsedRecord[key] !== undefined
+      ) {
+        const variable = rawValues.variableByKey[key];
+        sink.emit({
+          code: 'DEFAULT_USED',
+          key,
+          ...(variable !== undefined ? { variable } : {}),
+          message: `Env: ${variable ?? key} is not set; using the schema default`,
+        });
+      }
+    }
     // Capture parsed values while building frozen metadata containers.
     const metaByKey = {} as {
       [K in keyof S & string]: EnvVar<ParsedValue<Parsed, K>, K>;
@@ -182,13 +517,30 @@ class EnvImpl<S extends ZodRawShape, Parsed extends Record<string, unknown> = De
     // `camel` mirrors the parsed values but exposes camelCase property names for convenience.
     // We keep this as a plain object so we can wire lazy getters that share the same parsed cache.
     const camelAccessor: Record<string, unknown> = {};
+    const camelOwners = new Map<string, string>();
+    const claimCamelKey = (camelKey: string, key: string): boolean => {
+      const owner = camelOwners.get(camelKey);
+      if (owner === undefined) {
+        camelOwners.set(camelKey, key);
+        return true;
+      }
+      sink.emit({
+        code: 'CAMEL_COLLISION',
+        key,
+        message: `Env: ${key} and ${owner} both map to camel.${camelKey}; it reads ${owner}`,
+      });
+      return false;
+    };
     // Populate metadata and value accessors for each declared key.
+    const shape = this.schema.shape as unknown as Record<string, ZodType | undefined>;
     for (const key of declaredKeys) {
-      metaByKey[key] = Object.freeze({
-        name: key,
-        val: parsedRecord[key as string] as ParsedValue<Parsed, typeof key>,
-        raw: rawByKey[key],
-      });
+      metaByKey[key] = createEnvVar(
+        key,
+        parsedRecord[key as string] as ParsedValue<Parsed, typeof key>,
+        this.source,
+        rawValues,
+        shape[key],
+      );
       Object.defineProperty(dataAccessor, key, {
         enumerable: true,
         get: () => parsedRecord[key as string] as ParsedValue<Parsed, typeof key>,
@@ -197,7 +549,7 @@ class EnvImpl<S extends ZodRawShape, Parsed extends Record<string, unknown> = De
       if (Object.prototype.hasOwnProperty.call(parsedRecord, key as string)) {
         // If two schema keys normalize to the same camelCase form, prefer the first declaration.
         // This avoids throwing on duplicate `defineProperty` calls and leaves the camel view best-effort.
-        if (Object.prototype.hasOwnProperty.call(camelAccessor, camelKey)) {
+        if (!claimCamelKey(camelKey, key)) {
           continue;
         }
         Object.defineProperty(camelAccessor, camelKey, {
@@ -227,7 +579,7 @@ class EnvImpl<S extends ZodRawShape, Parsed extends Record<string, unknown> = De
         continue;
       }
       const camelKey = snakeToCamelKey(key);
-      if (Object.prototype.hasOwnProperty.call(camelAccessor, camelKey)) {
+      if (!claimCamelKey(camelKey, key)) {
         continue;
       }
       Object.defineProperty(camelAccessor, camelKey, {
@@ -236,13 +588,192 @@ class EnvImpl<S extends ZodRawShape, Parsed extends Record<string, unknown> = De
       });
     }
 
+    // Sensitive fields print as `[REDACTED]` in `JSON.stringify()`, `util.inspect()`, and `console.log`.
+    const meta = metaByKey as Record<string, EnvVar<unknown, string> | undefined>;
+    if (declaredKeys.some((key) => meta[key]?.sensitive || containsSensitive(shape[key]))) {
+      const redactAccessor = (accessor: object, keyOf: (name: string) => string) => () =>
+        Object.fromEntries(
+          Object.keys(accessor).map((name) => [
+            name,
+            redactField(
+              (accessor as Record<string, unknown>)[name],
+              shape[keyOf(name)],
+              meta[keyOf(name)],
+            ),
+          ]),
+        );
+      withRedaction(
+        dataAccessor,
+        redactAccessor(dataAccessor, (name) => name),
+      );
+      withRedaction(
+        camelAccessor,
+        redactAccessor(camelAccessor, (name) => camelOwners.get(name) ?? name),
+      );
+    }
+
     this.meta = Object.freeze(metaByKey) as MetaByKey<S, Parsed>;
     this.data = Object.freeze(dataAccessor);
     this.camel = Object.freeze(camelAccessor) as CamelDataAccessor<Parsed>;
+    this.camelKeys = camelOwners;
+    this.warnings = Object.freeze([...sink.collected]);
+  }
+
+  /**
+   * Unmasked metadata for `key`. For keys marked sensitive, `meta[key]` holds masked previews; this is
+   * the explicit path to the real `raw` (and related) values. Other keys return `meta[key]` itself.
+   */
+  public reveal<const Key extends keyof S & string>(key: Key): MetaByKey<S, Parsed>[Key] {
+    if (!Object.prototype.hasOwnProperty.call(this.meta, key)) {
+      throw new Error(`Env.reveal(): "${key}" is not declared`);
+    }
+
+    const entry = this.meta[key];
+    return (revealedEntries.get(entry) ?? entry) as MetaByKey<S, Parsed>[Key];
+  }
+
+  /**
+   * Copy the parsed values into a plain object (no getters), e.g. for `structuredClone()` or logging.
+   * Sensitive fields are redacted unless `redact: false` is passed.
+   */
+  public toObject(options: EnvToObjectOptions = {}): Record<string, unknown> {
+    const { keys = 'original', redact = true, includeDerived = false } = options;
+    const shape = this.schema.shape as unknown as Record<string, ZodType | undefined>;
+    const accessor = (keys === 'camel' ? this.camel : this.data) as Record<string, unknown>;
+    const meta = this.meta as Record<string, EnvVar<unknown, string> | undefined>;
+    const result: Record<string, unknown> = {};
+
+    for (const name of Object.keys(accessor)) {
+      const key = keys === 'camel' ? (this.camelKeys.get(name) ?? name) : name;
+      const declared = Object.prototype.hasOwnProperty.call(shape, key);
+      if (declared || includeDerived) {
+        result[name] = redact ? redactField(accessor[name], shape[key], meta[key]) : accessor[name];
+      }
+    }
+
+    return result;
   }
 
   /**
-   * Create a new Env scoped to a subset of keys while reusing the same source.
+   * `JSON.stringify(env)` writes the declared values with sensitive fields redacted, never `source`.
+   * Bigints are written as strings, Maps as objects, and Sets as arrays.
+   */
+  public toJSON(): Record<string, unknown> {
+    return toJsonValue(this.toObject()) as Record<string, unknown>;
+  }
+
+  /**
+   * Render an aligned table of every declared variable: name, where its value came from
+   * (`set`, `default`, or `missing`), expected type, and value (sensitive values redacted).
+   *
+   * @example
+   * ```ts
+   * console.log(env.summary());
+   * // NAME        SOURCE   TYPE                     VALUE
+   * // PORT        set      port                     8080
+   * // LOG_LEVEL   default  one of "debug" | "info"  info
+   * // API_KEY     set      string                   [REDACTED]
+   * // SENTRY_DSN  missing  url                      -
+   * ```
+   */
+  public summary(): string {
+    const shape = this.schema.shape as unknown as Record<string, ZodType | undefined>;
+    const meta = this.meta as Record<string, EnvVar<unknown, string>>;
+    const values = this.toObject();
+
+    return formatSummary(
+      Object.keys(shape).map((key) => {
+        const entry = revealedEntries.get(meta[key]) ?? meta[key];
+        const input = 'normalized' in entry ? entry.normalized : entry.raw;
+        const set = input !== undefined || entry.nested !== undefined;
+        return {
+          name: entry.variable ?? key,
+          source: set ? 'set' : values[key] !== undefined ? 'default' : 'missing',
+          type: describeSchemaType(shape[key]),
+          value: values[key],
+        };
+      }),
+    );
+  }
+
+  /**
+   * Re-read the declared variables from the live source (even with `snapshot`) and report those
+   * added, removed, or changed since construction, e.g. by a library writing to `process.env`.
+   * Values of sensitive keys are masked. Reads apply `prefix`, aliases, `expand`, `_FILE`, and
+   * decryption as construction did (and throw its errors); `fromZodAsync()` references are compared
+   * unresolved. Nothing is re-parsed: `data` and `meta` keep the values from construction.
+   *
+   * @example
+   * ```ts
+   * const drift = env.verify();
+   * if (!drift.ok) {
+   *   console.warn('Environment changed after startup', drift.changed);
+   * }
+   * ```
+   */
+  public verify(): EnvVerifyResult {
+    const shape = this.schema.shape as unknown as Record<string, ZodType | undefined>;
+    const meta = this.meta as Record<string, EnvVar<unknown, string>>;
+    const current = collectRawValues(
+      this.schema,
+      this.liveSource,
+      { ...this.options, onDeprecation: undefined },
+      {},
+    );
+    const before = new Map<string, RawReading>();
+    const after = new Map<string, RawReading>();
+    const masked = new Set<string>();
+
+    for (const key of Object.keys(shape)) {
+      const entry = revealedEntries.get(meta[key]) ?? meta[key];
+      const nested = current.nestedByKey[key] ?? [];
+      // Nested variables extend the variable of their key, so the suffix names the same field
+      // whether it was read through an alias or the canonical name.
+      const readVariable = entry.variable ?? key;
+      before.set(key, { key, variable: readVariable, raw: entry.reference ?? entry.raw });
+      for (const [variable, raw] of Object.entries(entry.nested ?? {})) {
+        before.set(`${key}${variable.slice(readVariable.length)}`, { key, variable, raw });
+      }
+      const variableNow = current.variableByKey[key] ?? key;
+      after.set(key, {
+        key,
+        variable: variableNow,
+        raw: current.untouchedByKey[key] ?? current.rawByKey[key],
+      });
+      for (const read of nested) {
+        after.set(`${key}${read.variable.slice(variableNow.length)}`, {
+          key,
+          variable: read.variable,
+          raw: read.untouched ?? read.raw,
+        });
+      }
+
+      if (
+        entry.sensitive ||
+        containsSensitive(shape[key]) ||
+        current.encryptedByKey[key] !== undefined ||
+        nested.some((read) => read.encrypted !== undefined)
+      ) {
+        masked.add(key);
+      }
+    }
+
+    return diffReadings(before, after, (key, raw) => (masked.has(key) ? redactRaw(raw) : raw));
+  }
+
+  /** `util.inspect()`/`console.log` print the parsed values (sensitive ones masked), never `source`. */
+  public [Symbol.for('nodejs.util.inspect.custom')](
+    _depth: number,
+    options: unknown,
+    inspect?: (value: unknown, options: unknown) => string,
+  ): unknown {
+    const data = this.toObject();
+    return inspect ? `Env ${inspect(data, options)}` : data;
+  }
+
+  /**
+   * Create a new Env scoped to a subset of keys while reusing the same source. Envs built by
+   * `fromZodAsync()` hand down their parsed values instead, since async checks cannot re-run here.
    */
   public pick<const Keys extends readonly (keyof S & string)[]>(
     ...keys: Keys
@@ -319,10 +850,12 @@ class EnvImpl<S extends ZodRawShape, Parsed extends Record<string, unknown> = De
       );
     }
 
-    return EnvImpl.fromZodObject(subsetSchema, this.source) as Env<
-      PickShape<S, Keys[number]>,
-      PickParsed<Parsed, Keys[number]>
-    >;
+    return new EnvImpl(subsetSchema, this.source, subsetSchema, this.options, {
+      resolved: this.resolved,
+      ...(this.asyncParsed ? { parsed: pickParsed(this.asyncParsed, keys) } : {}),
+      derived: true,
+      live: this.liveSource,
+    }) as unknown as Env<PickShape<S, Keys[number]>, PickParsed<Parsed, Keys[number]>>;
   }
 
   /**
@@ -354,14 +887,39 @@ class EnvImpl<S extends ZodRawShape, Parsed extends Record<string, unknown> = De
     >;
   }
 
+  /**
+   * Non-throwing `pick()`: returns `{ success: true, env }`, or `{ success: false, error, partial }`
+   * when the subset fails validation, with `partial` holding `meta` for the keys that parsed.
+   */
+  public safePick<const Keys extends readonly (keyof S & string)[]>(
+    ...keys: Keys
+  ): EnvSafeResult<Env<PickShape<S, Keys[number]>, PickParsed<Parsed, Keys[number]>>> {
+    return safely(() => this.pick(...keys));
+  }
+
+  /**
+   * Non-throwing `omit()`; see `safePick()`. Omitting an undeclared key still throws.
+   */
+  public safeOmit<const Keys extends readonly (keyof S & string)[]>(
+    ...keys: Keys
+  ): EnvSafeResult<
+    Env<
+      PickShape<S, Exclude<keyof S & string, Keys[number]>>,
+      PickParsed<Parsed, Exclude<keyof S & string, Keys[number]>>
+    >
+  > {
+    return safely(() => this.omit(...keys));
+  }
+
   /**
    * Parse environment variables with a Zod schema and get a typed accessor immediately.
    * Accepts either a raw Zod object shape or any Zod record-compatible schema (effects, pipelines, transforms).
-   * Values are pulled from `source` (defaults to `process.env`), parsed at construction time, and will throw a `ZodError` if invalid.
+   * Values are pulled from `source` (defaults to `process.env`), parsed at construction time, and will throw an `EnvValidationError` (also an `instanceof ZodError`) if invalid.
    * The returned `Env` exposes `data` for parsed values, `meta` for raw/parsed per-key info, and `camel` for camelCase accessors.
    *
    * @param schema Zod object shape or any schema that ultimately resolves to a ZodObject.
    * @param source Optional env source; pass a plain object to avoid relying on `process.env` (useful for tests, workers, and bundlers).
+   * @param options Optional behaviour switches such as `expand` for `${VAR}` interpolation.
    *
    * @example Basic validation with a raw shape
    * ```ts
@@ -394,17 +952,139 @@ class EnvImpl<S extends ZodRawShape, Parsed extends Record<string, unknown> = De
   public static fromZod<const Shape extends ZodRawShape>(
     schema: Shape,
     source?: EnvSource,
+    options?: EnvOptions,
   ): Env<Shape>;
   public static fromZod<TSchema extends ZodRecordSchema>(
     schema: TSchema,
     source?: EnvSource,
+    options?: EnvOptions,
   ): Env<InferSchemaShape<TSchema>, ParserOutputForSchema<InferSchemaShape<TSchema>, TSchema>>;
-  public static fromZod(schema: ZodRecordSchema | ZodRawShape, source?: EnvSource): Env<any, any> {
+  public static fromZod(
+    schema: ZodRecordSchema | ZodRawShape,
+    source?: EnvSource,
+    options?: EnvOptions,
+  ): Env<any, any> {
     if (isZodType(schema)) {
-      return EnvImpl.fromZodSchema(schema as ZodRecordSchema, source);
+      return EnvImpl.fromZodSchema(schema as ZodRecordSchema, source, options);
+    }
+
+    return EnvImpl.fromRawShape(schema as ZodRawShape, source, options);
+  }
+
+  /**
+   * Non-throwing counterpart of `Env.fromZod()` for tools that inspect a broken environment
+   * (health checks, config linters). Returns `{ success: true, env }` or
+   * `{ success: false, error, partial }`, where `error` is the `EnvValidationError` `fromZod()`
+   * would have thrown and `partial` holds `meta` entries for every key that parsed.
+   * Only validation failures are captured; malformed input such as an interpolation error still throws.
+   *
+   * @example
+   * ```ts
+   * const result = Env.safeFromZod({ PORT: z.number(), HOST: z.string() }, { PORT: '8080' });
+   * if (!result.success) {
+   *   result.partial.PORT?.val; // 8080
+   *   result.error.report.missing; // [{ variable: 'HOST', ... }]
+   * }
+   * ```
+   */
+  public static safeFromZod<const Shape extends ZodRawShape>(
+    schema: Shape,
+    source?: EnvSource,
+    options?: EnvOptions,
+  ): EnvSafeResult<Env<Shape>>;
+  public static safeFromZod<TSchema extends ZodRecordSchema>(
+    schema: TSchema,
+    source?: EnvSource,
+    options?: EnvOptions,
+  ): EnvSafeResult<
+    Env<InferSchemaShape<TSchema>, ParserOutputForSchema<InferSchemaShape<TSchema>, TSchema>>
+  >;
+  public static safeFromZod(
+    schema: ZodRecordSchema | ZodRawShape,
+    source?: EnvSource,
+    options?: EnvOptions,
+  ): EnvSafeResult<Env<any, any>> {
+    return safely(() => EnvImpl.fromZod(schema as ZodRawShape, source, options));
+  }
+
+  /**
+   * Async counterpart of `Env.fromZod()` for schemas with async refinements or values fetched at startup.
+   * Raw values shaped like `scheme://reference` whose scheme has a registered resolver are replaced by the
+   * awaited resolver result (all keys resolve concurrently), then the schema runs via `parseAsync()`.
+   * The returned `Env` has the same `data`/`meta`/`camel`/`keys` shape; `meta[KEY].reference` keeps the
+   * original reference. Derived envs from `pick()`/`omit()` reuse the resolved values but validate synchronously.
+   *
+   * @param schema Zod object shape or any schema that ultimately resolves to a ZodObject.
+   * @param source Optional env source; defaults to `process.env`.
+   * @param options `Env.fromZod()` options plus `resolvers` keyed by URI scheme.
+   *
+   * @example
+   * ```ts
+   * import { Env, z } from 'env-struct';
+   *
+   * const env = await Env.fromZodAsync(
+   *   { DB_PASSWORD: z.string().min(12) },
+   *   { DB_PASSWORD: 'secret://prod/db-password' },
+   *   { resolvers: { secret: (name) => vault.read(name) } },
+   * );
+   *
+   * env.data.DB_PASSWORD; // value fetched from the vault
+   * env.meta.DB_PASSWORD.reference; // "secret://prod/db-password"
+   * ```
+   */
+  public static fromZodAsync<const Shape extends ZodRawShape>(
+    schema: Shape,
+    source?: EnvSource,
+    options?: EnvAsyncOptions,
+  ): Promise<Env<Shape>>;
+  public static fromZodAsync<TSchema extends ZodRecordSchema>(
+    schema: TSchema,
+    source?: EnvSource,
+    options?: EnvAsyncOptions,
+  ): Promise<
+    Env<InferSchemaShape<TSchema>, ParserOutputForSchema<InferSchemaShape<TSchema>, TSchema>>
+  >;
+  public static async fromZodAsync(
+    schema: ZodRecordSchema | ZodRawShape,
+    source?: EnvSource,
+    options: EnvAsyncOptions = {},
+  ): Promise<Env<any, any>> {
+    const parser = isZodType(schema)
+      ? (schema as ZodRecordSchema)
+      : z.object(schema as ZodRawShape);
+    const objectSchema = resolveObjectSchema(parser);
+    const { resolvers, ...envOptions } = options;
+    const sink = createWarningSink(envOptions);
+    const resolvedSource = source ?? getDefaultEnvSource(envOptions, sink);
+
+    const rawValues = collectRawValues(objectSchema, resolvedSource, envOptions, {});
+    checkStrict(objectSchema, resolvedSource, envOptions, sink, rawValues.expandedVariables);
+    const resolved = await resolveReferences(rawValues.rawByKey, resolvers ?? {});
+    for (const key of Object.keys(resolved)) {
+      rawValues.referenceByKey[key] = resolved[key].reference;
+      const decrypted = decryptRaw(resolved[key].raw, envOptions.decrypt);
+      if (decrypted.encrypted !== undefined) {
+        rawValues.encryptedByKey[key] = decrypted.encrypted;
+        rawValues.decryptionIssueByKey[key] = decrypted.issue;
+      }
+      const raw = normalizeRaw(decrypted.raw, normalizePolicy(envOptions, key));
+      rawValues.rawByKey[key] = raw;
+      rawValues.untouchedByKey[key] = raw !== decrypted.raw ? decrypted.raw : undefined;
     }
 
-    return EnvImpl.fromRawShape(schema as ZodRawShape, source);
+    const candidate = buildCandidate(objectSchema, rawValues, sink, envOptions);
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = await parseCandidateAsync(parser, candidate);
+    } catch (error) {
+      throw toValidationError(error, objectSchema, resolvedSource, rawValues, candidate);
+    }
+    return new EnvImpl(objectSchema, resolvedSource, parser, envOptions, {
+      resolved,
+      parsed,
+      raw: rawValues,
+      sink,
+    });
   }
 
   /**
@@ -463,6 +1143,7 @@ class EnvImpl<S extends ZodRawShape, Parsed extends Record<string, unknown> = De
    *
    * @param names Ordered list of environment variable names to expose.
    * @param source Optional env source; defaults to `process.env`.
+   * @param options Optional behaviour switches shared with `Env.fromZod()`.
    *
    * @example
    * ```ts
@@ -480,9 +1161,21 @@ class EnvImpl<S extends ZodRawShape, Parsed extends Record<string, unknown> = De
   public static fromNames<const Names extends readonly string[]>(
     names: Names,
     source?: EnvSource,
+    options?: EnvOptions,
   ): Env<EnvShapeFromNames<Names>> {
     const schema = buildSchemaFromNames(names);
-    return new EnvImpl<EnvShapeFromNames<Names>>(schema, source, schema);
+    return new EnvImpl<EnvShapeFromNames<Names>>(schema, source, schema, options);
+  }
+
+  /**
+   * Non-throwing counterpart of `Env.fromNames()`; see `Env.safeFromZod()`.
+   */
+  public static safeFromNames<const Names extends readonly string[]>(
+    names: Names,
+    source?: EnvSource,
+    options?: EnvOptions,
+  ): EnvSafeResult<Env<EnvShapeFromNames<Names>>> {
+    return safely(() => EnvImpl.fromNames(names, source, options));
   }
 
   /**
@@ -490,6 +1183,7 @@ class EnvImpl<S extends ZodRawShape, Parsed extends Record<string, unknown> = De
    * Each entry is treated as an optional string; values are parsed immediately so you can inject fixtures without touching `process.env`.
    *
    * @param values Plain object of env-var names to raw string values.
+   * @param options Optional behaviour switches shared with `Env.fromZod()`.
    *
    * @example
    * ```ts
@@ -507,30 +1201,84 @@ class EnvImpl<S extends ZodRawShape, Parsed extends Record<string, unknown> = De
    */
   public static fromValues<const Source extends EnvSource>(
     values: Source,
+    options?: EnvOptions,
   ): Env<EnvShapeFromRecord<Source>> {
     const names = Object.keys(values) as (keyof Source & string)[];
     const schema = buildSchemaFromNames(names as readonly (keyof Source & string)[]);
 
-    return new EnvImpl(schema, values, schema);
+    return new EnvImpl(schema, values, schema, options);
+  }
+
+  /**
+   * Non-throwing counterpart of `Env.fromValues()`; see `Env.safeFromZod()`.
+   */
+  public static safeFromValues<const Source extends EnvSource>(
+    values: Source,
+    options?: EnvOptions,
+  ): EnvSafeResult<Env<EnvShapeFromRecord<Source>>> {
+    return safely(() => EnvImpl.fromValues(values, options));
+  }
+
+  /**
+   * Parse a dotenv file (or its contents) and validate it with a Zod schema, exactly like `Env.fromZod()`.
+   * Strings containing a newline or `=` are parsed as contents; anything else is a path, read with
+   * `options.readFile` (`readEnvFile` from `env-struct/node` on Node).
+   * Pass `{ path }` or `{ contents, filename }` to be explicit. Malformed files throw a
+   * `DotenvParseError` naming the file and line, and `env.meta[KEY].origin` records where each value was read.
+   *
+   * @param schema Zod object shape or any schema that ultimately resolves to a ZodObject.
+   * @param input Path to a dotenv file, its contents, or an explicit `{ path }` / `{ contents }` object.
+   * @param options Optional behaviour switches shared with `Env.fromZod()`.
+   *
+   * @example
+   * ```ts
+   * import { Env, z } from 'env-struct';
+   * import { readEnvFile } from 'env-struct/node';
+   *
+   * const env = Env.fromDotenv({ PORT: z.number(), API_KEY: z.string() }, '.env', {
+   *   readFile: readEnvFile,
+   * });
+   * env.data.PORT; // number parsed from .env
+   * env.meta.API_KEY.origin; // { file: '.env', line: 2 }
+   * ```
+   */
+  public static fromDotenv<const Shape extends ZodRawShape>(
+    schema: Shape,
+    input: DotenvInput,
+    options?: EnvOptions,
+  ): Env<Shape>;
+  public static fromDotenv<TSchema extends ZodRecordSchema>(
+    schema: TSchema,
+    input: DotenvInput,
+    options?: EnvOptions,
+  ): Env<InferSchemaShape<TSchema>, ParserOutputForSchema<InferSchemaShape<TSchema>, TSchema>>;
+  public static fromDotenv(
+    schema: ZodRecordSchema | ZodRawShape,
+    input: DotenvInput,
+    options?: EnvOptions,
+  ): Env<any, any> {
+    return EnvImpl.fromZod(schema as ZodRawShape, loadDotenv(input, options), options);
   }
 
   private static fromRawShape<S extends ZodRawShape>(
     schema: S,
     source?: EnvSource,
+    options?: EnvOptions,
   ): EnvImpl<S, DefaultParsed<S>> {
     const zodSchema = z.object(schema);
-    return new EnvImpl<S, DefaultParsed<S>>(zodSchema, source, zodSchema);
+    return new EnvImpl<S, DefaultParsed<S>>(zodSchema, source, zodSchema, options);
   }
 
   private static fromZodSchema<TSchema extends ZodRecordSchema>(
     schema: TSchema,
     source?: EnvSource,
+    options?: EnvOptions,
   ): EnvImpl<InferSchemaShape<TSchema>, ParserOutputForSchema<InferSchemaShape<TSchema>, TSchema>> {
     const objectSchema = resolveObjectSchema(schema) as ZodObject<InferSchemaShape<TSchema>>;
     return new EnvImpl<
       InferSchemaShape<TSchema>,
       ParserOutputForSchema<InferSchemaShape<TSchema>, TSchema>
-    >(objectSchema, source, schema);
+    >(objectSchema, source, schema, options);
   }
 }
 
@@ -542,174 +1290,699 @@ export type Env<
 
 /* ---------------- Internal, opinionated parsing ---------------- */
 
-function buildValues<S extends ZodRawShape, Parsed extends Record<string, unknown>>(
-  schema: ZodObject<S>,
-  parser: ZodRecordSchema,
+/** Raw strings gathered for each declared key, plus where they came from. */
+interface RawValues {
+  /** Normalized values, as coerced and validated. */
+  readonly rawByKey: Record<string, string | undefined>;
+  /** Values as read, for keys whose normalization changed them. */
+  readonly untouchedByKey: Record<string, string | undefined>;
+  readonly templateByKey: Record<string, string | undefined>;
+  readonly originByKey: Record<string, EnvVarOrigin | undefined>;
+  readonly referenceByKey: Record<string, string | undefined>;
+  /** Source variable names that differ from the declared key. */
+  readonly variableByKey: Record<string, string | undefined>;
+  /** Delimited variables feeding nested object fields, in override order. */
+  readonly nestedByKey: Record<string, readonly NestedRaw[] | undefined>;
+  /** Encodings of `envSchemas.base64()` (etc.) fields. */
+  readonly encodingByKey: Record<string, readonly EnvEncoding[] | undefined>;
+  /** `enc:` values as read, for keys decrypted (or that failed to decrypt) with `decrypt`. */
+  readonly encryptedByKey: Record<string, string | undefined>;
+  /** Why an `enc:` value could not be decrypted, reported as an issue on the key. */
+  readonly decryptionIssueByKey: Record<string, string | undefined>;
+  /** Variables looked up while expanding `${VAR}` references, which `strict` counts as read. */
+  readonly expandedVariables: ReadonlySet<string>;
+}
+
+/** A delimited variable (e.g. `DB__POOL__MAX`) and the field path it populates below its key. */
+interface NestedRaw {
+  readonly variable: string;
+  readonly path: readonly string[];
+  readonly schema: ZodType;
+  readonly raw: string;
+  /** Value as read, when normalization changed it. */
+  readonly untouched?: string;
+  /** `enc:` value as read, when `decrypt` decrypted (or failed to decrypt) it. */
+  readonly encrypted?: string;
+  /** Why the `enc:` value could not be decrypted. */
+  readonly decryptionIssue?: string;
+}
+
+function collectRawValues(
+  schema: ZodObject<any>,
   source: EnvSource,
-) {
-  const shape = schema.shape as unknown as Record<string, ZodType | undefined>;
+  options: EnvOptions,
+  resolved: Readonly<Record<string, ResolvedValue>>,
+): RawValues {
   const rawByKey: Record<string, string | undefined> = {};
-  const candidate: Record<string, unknown> = {};
+  const untouchedByKey: Record<string, string | undefined> = {};
+  const templateByKey: Record<string, string | undefined> = {};
+  const originByKey: Record<string, EnvVarOrigin | undefined> = {};
+  const referenceByKey: Record<string, string | undefined> = {};
+  const variableByKey: Record<string, string | undefined> = {};
+  const nestedByKey: Record<string, readonly NestedRaw[] | undefined> = {};
+  const encodingByKey: Record<string, readonly EnvEncoding[] | undefined> = {};
+  const encryptedByKey: Record<string, string | undefined> = {};
+  const decryptionIssueByKey: Record<string, string | undefined> = {};
+  const prefix = options.prefix ?? '';
+  const expandedVariables = new Set<string>();
+  const expand = options.expand ? createExpander(source, expandedVariables) : undefined;
+
+  const read = (name: string) => (expand ? expand(name) : source[name]);
+
+  for (const key of Object.keys(schema.shape)) {
+    const canonical = `${prefix}${key}`;
+    let variable = canonical;
+    let raw = read(canonical);
+
+    for (const alias of options.aliases?.[key] ?? []) {
+      const aliasRaw = read(alias);
+      if (aliasRaw === undefined) {
+        continue;
+      }
+      if (raw === undefined) {
+        variable = alias;
+        raw = aliasRaw;
+        options.onDeprecation?.({ key, variable: canonical, alias });
+      } else if (aliasRaw !== raw && variable === canonical && options.aliasConflicts === 'error') {
+        throw new Error(
+          `Env: both ${canonical} and deprecated ${alias} are set with different values; remove ${alias}`,
+        );
+      }
+    }
 
-  for (const key of Object.keys(shape)) {
-    const raw = source[key];
-    rawByKey[key] = raw;
-    const fieldSchema = shape[key];
-    candidate[key] = coerceValue(fieldSchema, raw);
+    if (variable !== key) {
+      variableByKey[key] = variable;
+    }
+
+    const template = source[variable];
+    if (raw !== template) {
+      templateByKey[key] = template;
+    }
+
+    if (options.fileSecrets) {
+      const fileVar = `${canonical}${FILE_SECRET_SUFFIX}`;
+      const path = read(fileVar);
+      if (path !== undefined) {
+        if (raw !== undefined) {
+          throw new Error(`Env: both ${variable} and ${fileVar} are set; provide only one`);
+        }
+        raw = readFileSecret(canonical, fileVar, path, options.readFile);
+        originByKey[key] = Object.freeze({ file: path, fileVar });
+      }
+    }
+
+    if (Object.prototype.hasOwnProperty.call(resolved, key)) {
+      referenceByKey[key] = resolved[key].reference;
+      raw = resolved[key].raw;
+    }
+
+    const encoding = getEnvEncodings(schema.shape[key]) as readonly EnvEncoding[];
+    if (encoding.length > 0) {
+      encodingByKey[key] = Object.freeze([...encoding]);
+    }
+
+    const decrypted = decryptRaw(raw, options.decrypt);
+    if (decrypted.encrypted !== undefined) {
+      encryptedByKey[key] = decrypted.encrypted;
+      decryptionIssueByKey[key] = decrypted.issue;
+      raw = decrypted.raw;
+    }
+
+    const policy = normalizePolicy(options, key);
+    rawByKey[key] = normalizeRaw(raw, policy);
+    if (rawByKey[key] !== raw) {
+      untouchedByKey[key] = raw;
+    }
+
+    if (options.nestedDelimiter) {
+      const nested: NestedRaw[] = [];
+      collectNestedRaw(schema.shape[key], variable, [], options.nestedDelimiter, read, nested);
+      const prepared = nested.flatMap((entry) => prepareNested(entry, policy, options.decrypt));
+      if (prepared.length > 0) {
+        nestedByKey[key] = prepared;
+      }
+    }
   }
 
-  // Enforce field-level and cross-field rules. Let ZodError bubble.
-  const parsed = parser.parse(candidate) as Parsed;
-  return { parsed, rawByKey };
+  return {
+    rawByKey,
+    untouchedByKey,
+    templateByKey,
+    originByKey,
+    referenceByKey,
+    variableByKey,
+    nestedByKey,
+    encodingByKey,
+    encryptedByKey,
+    decryptionIssueByKey,
+    expandedVariables,
+  };
 }
 
-function coerceValue(schema: ZodType | undefined, raw: string | undefined): unknown {
-  if (raw == null) {
-    return undefined;
+/**
+ * Decrypt an `enc:` value when `decrypt` is set. `encrypted` is only present for `enc:` values;
+ * when decryption fails, `raw` stays encrypted and `issue` says why.
+ */
+function decryptRaw(
+  raw: string | undefined,
+  decrypt: EnvDecryptor | undefined,
+): { raw: string | undefined; encrypted?: string; issue?: string } {
+  if (raw === undefined || decrypt === undefined || !isEncryptedValue(raw)) {
+    return { raw };
+  }
+
+  try {
+    return { raw: decrypt(raw), encrypted: raw };
+  } catch (error) {
+    return { raw, encrypted: raw, issue: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function normalizePolicy(options: EnvOptions, key: string): EnvNormalizePolicy | undefined {
+  const keyPolicy = options.keyNormalize?.[key];
+  return keyPolicy ? { ...options.normalize, ...keyPolicy } : options.normalize;
+}
+
+/** Decrypt and normalize a delimited variable; entries the policy empties out are dropped. */
+function prepareNested(
+  entry: NestedRaw,
+  policy: EnvNormalizePolicy | undefined,
+  decrypt: EnvDecryptor | undefined,
+): NestedRaw[] {
+  const { raw: plain = entry.raw, encrypted, issue } = decryptRaw(entry.raw, decrypt);
+  const read: NestedRaw =
+    encrypted === undefined
+      ? entry
+      : {
+          ...entry,
+          raw: plain,
+          encrypted,
+          ...(issue !== undefined ? { decryptionIssue: issue } : {}),
+        };
+  const raw = normalizeRaw(read.raw, policy);
+  if (raw === undefined) {
+    return [];
   }
 
-  const normalized = raw.trim();
-  const baseSchema = unwrapType(schema);
-  const typeName = getTypeTag(baseSchema?._def);
+  return [raw === read.raw ? read : { ...read, raw, untouched: read.raw }];
+}
+
+/** Leading segments of variables that Node and npm set themselves, never scanned by `strict`. */
+const RUNTIME_SEGMENTS: ReadonlySet<string> = new Set(['NODE_', 'NPM_', 'npm_']);
 
-  // Object-like schemas: require valid JSON.
-  if (typeName && isObjectLike(typeName)) {
-    return mustJsonParse(raw);
+/**
+ * Apply the `strict` option: flag in-scope source variables the schema does not read. Variables
+ * only referenced through `${VAR}` expansion count as read.
+ */
+function checkStrict(
+  schema: ZodObject<any>,
+  source: EnvSource,
+  options: EnvOptions,
+  sink: WarningSink,
+  expandedVariables: ReadonlySet<string>,
+): void {
+  if (!options.strict) {
+    return;
   }
 
-  // Numbers.
-  if (typeName === 'ZodNumber' || typeName === 'number') {
-    if (normalized === '') {
-      return raw;
+  const declared: string[] = [...expandedVariables];
+  const segmentCounts = new Map<string, number>();
+  const prefix = options.prefix ?? '';
+  for (const key of Object.keys(schema.shape)) {
+    const canonical = `${prefix}${key}`;
+    declared.push(canonical, ...(options.aliases?.[key] ?? []));
+    if (options.fileSecrets) {
+      declared.push(`${canonical}${FILE_SECRET_SUFFIX}`);
+    }
+    if (options.nestedDelimiter) {
+      collectNestedVariables(schema.shape[key], canonical, options.nestedDelimiter, declared);
+    }
+
+    const segment = key.indexOf('_');
+    if (segment > 0) {
+      const leading = key.slice(0, segment + 1);
+      segmentCounts.set(leading, (segmentCounts.get(leading) ?? 0) + 1);
     }
+  }
+
+  // Without a prefix, a leading segment is a namespace once two declared keys share it, unless
+  // runtimes own it (`NODE_ENV` alone must not put `NODE_OPTIONS` in scope).
+  const prefixes = options.prefix
+    ? [options.prefix]
+    : [...segmentCounts]
+        .filter(([segment, count]) => count > 1 && !RUNTIME_SEGMENTS.has(segment))
+        .map(([segment]) => segment);
+
+  checkUndeclaredVariables(
+    source,
+    declared,
+    prefixes,
+    options.strict === true ? {} : options.strict,
+    sink,
+  );
+}
 
-    const n = Number(normalized);
-    return Number.isNaN(n) ? raw : n;
+function collectNestedVariables(
+  schema: ZodType | undefined,
+  variable: string,
+  delimiter: string,
+  out: string[],
+): void {
+  const shape = getObjectShape(schema);
+  for (const child of Object.keys(shape ?? {})) {
+    const childVariable = `${variable}${delimiter}${child}`;
+    out.push(childVariable);
+    collectNestedVariables(shape?.[child], childVariable, delimiter, out);
   }
+}
 
-  // Booleans: true/false/1/0/on/off/yes/no (case-insensitive).
-  if (typeName === 'ZodBoolean' || typeName === 'boolean') {
-    const v = normalized.toLowerCase();
+/**
+ * Walk nested `z.object()` shapes depth-first, recording every `<parent><delimiter><child>` variable
+ * that is set. Parents are recorded before their children so deeper variables override on merge.
+ */
+function collectNestedRaw(
+  schema: ZodType | undefined,
+  variable: string,
+  path: readonly string[],
+  delimiter: string,
+  read: (name: string) => string | undefined,
+  out: NestedRaw[],
+): void {
+  const shape = getObjectShape(schema);
+  if (!shape) {
+    return;
+  }
 
-    if (v === 'true' || v === '1' || v === 'on' || v === 'yes') {
-      return true;
-    } else if (v === 'false' || v === '0' || v === 'off' || v === 'no') {
-      return false;
-    } else {
-      return raw; // let Zod produce a precise error
+  for (const child of Object.keys(shape)) {
+    const childSchema = shape[child];
+    const childVariable = `${variable}${delimiter}${child}`;
+    const childPath = [...path, child];
+    const raw = read(childVariable);
+    if (raw !== undefined) {
+      out.push({ variable: childVariable, path: childPath, schema: childSchema, raw });
     }
+    collectNestedRaw(childSchema, childVariable, childPath, delimiter, read, out);
+  }
+}
+
+/** Redact a parsed value for printing: all of it for sensitive (or decrypted) keys, else its sensitive fields. */
+function redactField(
+  value: unknown,
+  schema: ZodType | undefined,
+  entry: EnvVar<unknown, string> | undefined,
+): unknown {
+  return entry?.sensitive && value !== undefined ? REDACTED : redactValue(value, schema);
+}
+
+function nestedRawValues(
+  nested: readonly NestedRaw[],
+  redact = false,
+): Readonly<Record<string, string>> {
+  return Object.freeze(
+    Object.fromEntries(
+      nested.map((entry) => {
+        const raw = entry.untouched ?? entry.raw;
+        const sensitive = isSensitive(entry.schema) || entry.encrypted !== undefined;
+        return [entry.variable, redact && sensitive ? redactRaw(raw) : raw];
+      }),
+    ),
+  );
+}
+
+/** Unmasked metadata behind the entries of sensitive keys, for `env.reveal()`. */
+const revealedEntries = new WeakMap<object, EnvVar<unknown, string>>();
+
+function createEnvVar<TValue, TName extends string>(
+  key: TName,
+  val: TValue,
+  source: EnvSource,
+  {
+    rawByKey,
+    untouchedByKey,
+    templateByKey,
+    originByKey,
+    referenceByKey,
+    variableByKey,
+    nestedByKey,
+    encodingByKey,
+    encryptedByKey,
+  }: RawValues,
+  schema: ZodType | undefined,
+): EnvVar<TValue, TName> {
+  const variable = variableByKey[key];
+  const provenance = getSourceProvenance(source, variable ?? key);
+  const origin = originByKey[key] ?? provenance?.origin;
+  const entry: EnvVar<TValue, TName> = Object.freeze({
+    name: key,
+    ...(variable !== undefined ? { variable } : {}),
+    val,
+    raw: untouchedByKey[key] ?? rawByKey[key],
+    ...(untouchedByKey[key] !== undefined ? { normalized: rawByKey[key] } : {}),
+    ...(templateByKey[key] !== undefined ? { template: templateByKey[key] } : {}),
+    ...(referenceByKey[key] !== undefined ? { reference: referenceByKey[key] } : {}),
+    ...(origin ? { origin } : {}),
+    ...(provenance?.shadowed ? { shadowed: provenance.shadowed } : {}),
+    ...(nestedByKey[key] ? { nested: nestedRawValues(nestedByKey[key]) } : {}),
+    ...(encodingByKey[key] ? { encoding: encodingByKey[key] } : {}),
+    ...(encryptedByKey[key] !== undefined ? { encrypted: encryptedByKey[key] } : {}),
+  });
+  // A decrypted value, or one of its delimited leaves, makes the whole key sensitive.
+  const sensitive =
+    isSensitive(schema) ||
+    encryptedByKey[key] !== undefined ||
+    (nestedByKey[key] ?? []).some((nested) => nested.encrypted !== undefined);
+  if (!sensitive && !containsSensitive(schema)) {
+    return entry;
   }
 
-  // Strings: preserve raw value.
-  if (typeName === 'ZodString' || typeName === 'string') {
-    return raw;
+  // A raw value holding a sensitive field (e.g. JSON with a password) is masked as a whole.
+  const mask = (raw: string | undefined) => (raw !== undefined ? redactRaw(raw) : raw);
+  const masked: EnvVar<TValue, TName> = {
+    ...entry,
+    raw: mask(entry.raw),
+    ...('normalized' in entry ? { normalized: mask(entry.normalized) } : {}),
+    ...(entry.template !== undefined ? { template: mask(entry.template) } : {}),
+    ...(entry.shadowed
+      ? {
+          shadowed: Object.freeze(
+            entry.shadowed.map((shadowed) => ({ ...shadowed, raw: mask(shadowed.raw) as string })),
+          ),
+        }
+      : {}),
+    ...(nestedByKey[key] ? { nested: nestedRawValues(nestedByKey[key], true) } : {}),
+    ...(sensitive ? { sensitive: true } : {}),
+  };
+  withRedaction(masked, () => ({ ...masked, val: redactField(val, schema, masked) }));
+  revealedEntries.set(masked, entry);
+  return Object.freeze(masked);
+}
+
+/** The parsed values of `keys` (keys the parser dropped stay absent). */
+function pickParsed(
+  parsed: Record<string, unknown>,
+  keys: readonly string[],
+): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (Object.prototype.hasOwnProperty.call(parsed, key)) {
+      picked[key] = parsed[key];
+    }
   }
+  return picked;
+}
+
+/**
+ * Metadata for the keys that did parse when construction failed, keyed by the thrown error so
+ * the `safe*` factories can report it without threading extra state through the constructor.
+ */
+const parsedMetaByError = new WeakMap<
+  EnvValidationError,
+  Readonly<Record<string, EnvVar<unknown, string>>>
+>();
 
-  // Fallback: attempt JSON first; if parse fails, keep original string.
+/** Run a factory, turning an `EnvValidationError` into a failed `EnvSafeResult`. */
+function safely<TEnv extends EnvImpl<any, any>>(build: () => TEnv): EnvSafeResult<TEnv> {
   try {
-    const trimmed = normalized;
-    if (trimmed !== '' && (trimmed.startsWith('{') || trimmed.startsWith('['))) {
-      return JSON.parse(trimmed);
+    return { success: true, env: build() };
+  } catch (error) {
+    if (!(error instanceof EnvValidationError)) {
+      throw error;
     }
-  } catch {
-    return raw;
-  }
-
-  return raw;
-}
-
-function unwrapType(schema: ZodType | undefined): ZodType | undefined {
-  let current: ZodType | undefined = schema;
-  const seen = new Set<ZodType>();
-
-  while (current && !seen.has(current)) {
-    seen.add(current);
-    const def = current._def as unknown as {
-      typeName?: string;
-      type?: string;
-      innerType?: ZodType;
-      schema?: ZodType;
-      out?: ZodType;
-    } | null;
-    const typeName = getTypeTag(def);
-
-    if (
-      typeName === 'ZodOptional' ||
-      typeName === 'optional' ||
-      typeName === 'ZodNullable' ||
-      typeName === 'nullable' ||
-      typeName === 'ZodDefault' ||
-      typeName === 'default' ||
-      typeName === 'ZodCatch' ||
-      typeName === 'catch' ||
-      typeName === 'ZodReadonly' ||
-      typeName === 'readonly'
-    ) {
-      current = def?.innerType;
+    return {
+      success: false,
+      error,
+      partial: (parsedMetaByError.get(error) ?? {}) as Partial<TEnv['meta']>,
+    };
+  }
+}
+
+/**
+ * Wrap a ZodError in an `EnvValidationError` whose issues point at source variables
+ * (e.g. `BILLING_PORT` rather than `PORT`, or `DB__POOL__MAX` rather than `DB.POOL.MAX`).
+ * Anything other than a ZodError is returned untouched.
+ */
+function toValidationError(
+  error: unknown,
+  schema: ZodObject<any>,
+  source: EnvSource,
+  rawValues: RawValues,
+  candidate: Candidate,
+): unknown {
+  if (!(error instanceof z.ZodError)) {
+    return error;
+  }
+
+  const validationError = createValidationError(error, (path) =>
+    locateIssue(path, schema, rawValues, candidate),
+  );
+  parsedMetaByError.set(validationError, collectParsedMeta(schema, source, rawValues, candidate));
+  return validationError;
+}
+
+/** Build metadata for every declared key whose own schema accepts its candidate value. */
+function collectParsedMeta(
+  schema: ZodObject<any>,
+  source: EnvSource,
+  rawValues: RawValues,
+  candidate: Candidate,
+): Readonly<Record<string, EnvVar<unknown, string>>> {
+  const shape = schema.shape as Record<string, ZodType>;
+  const parsed: Record<string, EnvVar<unknown, string>> = {};
+
+  for (const key of Object.keys(shape)) {
+    if (hasCoercionIssue(candidate, key)) {
       continue;
     }
 
-    if (
-      typeName === 'ZodEffects' ||
-      typeName === 'effects' ||
-      typeName === 'transform' ||
-      typeName === 'ZodBranded' ||
-      typeName === 'branded'
-    ) {
-      const next = def?.schema;
-      if (next) {
-        current = next;
-        continue;
-      }
-      break;
+    let result;
+    try {
+      result = shape[key].safeParse(candidate.values[key]);
+    } catch {
+      continue; // async field checks cannot run synchronously
     }
-
-    if (typeName === 'ZodPipeline' || typeName === 'pipeline' || typeName === 'pipe') {
-      const next = (def as { in?: ZodType | undefined })?.in ?? def?.out;
-      if (next) {
-        current = next;
-        continue;
-      }
-      break;
+    if (result.success) {
+      parsed[key] = createEnvVar(key, result.data, source, rawValues, shape[key]);
     }
-
-    break;
   }
 
-  return current;
+  return Object.freeze(parsed);
 }
 
-function getTypeTag(def: { typeName?: string; type?: string } | null | undefined) {
-  if (!def) {
+function locateIssue(
+  path: readonly PropertyKey[],
+  schema: ZodObject<any>,
+  rawValues: RawValues,
+  candidate: Candidate,
+): IssueTarget | undefined {
+  const { rawByKey, variableByKey, nestedByKey, encryptedByKey } = rawValues;
+  const shape = schema.shape as Record<string, ZodType>;
+  const [head, ...rest] = path;
+  if (typeof head !== 'string' || !Object.prototype.hasOwnProperty.call(shape, head)) {
     return undefined;
   }
 
-  return (def.typeName as string | undefined) ?? (def.type as string | undefined);
+  const fieldSchema = shape[head];
+  const crossField =
+    !hasCoercionIssue(candidate, head) && fieldValidatesAlone(fieldSchema, candidate.values[head]);
+
+  // Prefer the deepest delimited variable whose field path prefixes the issue path.
+  let match: NestedRaw | undefined;
+  for (const entry of nestedByKey[head] ?? []) {
+    const within = entry.path.every((segment, index) => rest[index] === segment);
+    if (within && (!match || entry.path.length > match.path.length)) {
+      match = entry;
+    }
+  }
+  if (match) {
+    return {
+      key: head,
+      variable: match.variable,
+      raw: match.raw,
+      schema: match.schema,
+      sensitive:
+        isSensitive(match.schema) || match.encrypted !== undefined || isSecretRead(rawValues, head),
+      crossField,
+      path: [match.variable, ...rest.slice(match.path.length)],
+    };
+  }
+
+  const variable = variableByKey[head] ?? head;
+  return {
+    key: head,
+    variable,
+    raw: rawByKey[head],
+    schema: fieldSchema,
+    sensitive:
+      isSensitive(fieldSchema) ||
+      encryptedByKey[head] !== undefined ||
+      isSecretRead(rawValues, head),
+    crossField,
+    path: [variable, ...rest],
+  };
 }
 
-function isObjectLike(typeName: string): boolean {
-  return (
-    typeName === 'ZodObject' ||
-    typeName === 'object' ||
-    typeName === 'ZodArray' ||
-    typeName === 'array' ||
-    typeName === 'ZodRecord' ||
-    typeName === 'record' ||
-    typeName === 'ZodMap' ||
-    typeName === 'map' ||
-    typeName === 'ZodTuple' ||
-    typeName === 'tuple' ||
-    typeName === 'ZodSet' ||
-    typeName === 'set'
-  );
+/** Values read from `<KEY>_FILE` files or resolver references are secrets, whatever the schema says. */
+function isSecretRead({ originByKey, referenceByKey }: RawValues, key: string): boolean {
+  return originByKey[key]?.fileVar !== undefined || referenceByKey[key] !== undefined;
+}
+
+function hasCoercionIssue({ issues }: Candidate, key: string): boolean {
+  return issues.some((issue) => issue.path[0] === key);
 }
 
-function mustJsonParse(s: string): unknown {
+/** Whether a field passes on its own; if so, its issues came from object-level refinements. */
+function fieldValidatesAlone(schema: ZodType, value: unknown): boolean {
   try {
-    return JSON.parse(s);
+    return schema.safeParse(value).success;
   } catch {
-    return s; // invalid JSON; schema.parse will surface a clear error
+    return false; // async field checks cannot run synchronously; attribute issues to the field
+  }
+}
+
+/** Coerced values ready for the schema, plus issues coercers reported (e.g. duplicate map keys). */
+interface Candidate {
+  readonly values: Record<string, unknown>;
+  readonly issues: z.core.$ZodIssue[];
+}
+
+function buildCandidate(
+  schema: ZodObject<any>,
+  rawValues: RawValues,
+  sink: WarningSink,
+  options: EnvOptions,
+): Candidate {
+  const shape = schema.shape as unknown as Record<string, ZodType | undefined>;
+  const values: Record<string, unknown> = {};
+  const issues: z.core.$ZodIssue[] = [];
+  const coerce = createCoercion(options, {
+    warn: ({ key, variable }, code, message) =>
+      sink.emit({ code, key, ...(variable !== key ? { variable } : {}), message }),
+    addIssue: (target, message, path) =>
+      issues.push({
+        code: 'custom',
+        path: [target.key, ...(target.path ?? []), ...path],
+        message,
+        input: undefined,
+      }),
+  });
+
+  // A value that failed to decrypt is reported as is; coercing the ciphertext would only add noise.
+  const addDecryptionIssue = (path: readonly PropertyKey[], message: string) =>
+    issues.push({ code: 'custom', path: [...path], message, input: undefined });
+
+  for (const key of Object.keys(shape)) {
+    const raw = rawValues.rawByKey[key];
+    const variable = rawValues.variableByKey[key] ?? key;
+    const decryptionIssue = rawValues.decryptionIssueByKey[key];
+    if (decryptionIssue !== undefined) {
+      addDecryptionIssue([key], decryptionIssue);
+      continue;
+    }
+
+    warnIfBlank(sink, key, variable, raw);
+    const sensitive = rawValues.encryptedByKey[key] !== undefined || isSecretRead(rawValues, key);
+    const value = coerce(raw, { key, variable, schema: shape[key], sensitive });
+    const nested = rawValues.nestedByKey[key];
+    values[key] = nested
+      ? mergeNested(value, nested, key, sink, coerce, addDecryptionIssue)
+      : value;
+  }
+
+  return { values, issues };
+}
+
+/** Parse coerced values; coercion issues fail validation alongside the schema's own issues. */
+function parseCandidate(parser: ZodRecordSchema, candidate: Candidate): Record<string, unknown> {
+  return settleParse(parser.safeParse(candidate.values), candidate);
+}
+
+async function parseCandidateAsync(
+  parser: ZodRecordSchema,
+  candidate: Candidate,
+): Promise<Record<string, unknown>> {
+  return settleParse(await parser.safeParseAsync(candidate.values), candidate);
+}
+
+function settleParse(
+  result: z.ZodSafeParseResult<Record<string, unknown>>,
+  { issues }: Candidate,
+): Record<string, unknown> {
+  if (result.success && issues.length === 0) {
+    return result.data;
+  }
+
+  // A coercion issue explains why the value has the wrong type, so schema issues at or below it are noise.
+  const schemaIssues = result.success
+    ? []
+    : result.error.issues.filter(
+        (issue) => !issues.some((coercion) => startsWith(issue.path, coercion.path)),
+      );
+  throw new z.ZodError([...issues, ...schemaIssues]);
+}
+
+function startsWith(path: readonly PropertyKey[], prefix: readonly PropertyKey[]): boolean {
+  return prefix.length <= path.length && prefix.every((segment, index) => path[index] === segment);
+}
+
+function warnIfBlank(
+  sink: WarningSink,
+  key: string,
+  variable: string,
+  raw: string | undefined,
+): void {
+  if (raw !== undefined && raw.trim() === '') {
+    sink.emit({
+      code: 'BLANK_VALUE',
+      key,
+      ...(variable !== key ? { variable } : {}),
+      message: `Env: ${variable} is set but blank`,
+    });
+  }
+}
+
+/**
+ * Layer delimited variables over a (possibly JSON-parsed) object value.
+ * A non-object base that is still a string (invalid JSON) is kept so Zod reports it.
+ */
+function mergeNested(
+  base: unknown,
+  nested: readonly NestedRaw[],
+  key: string,
+  sink: WarningSink,
+  coerce: ReturnType<typeof createCoercion>,
+  addDecryptionIssue: (path: readonly PropertyKey[], message: string) => void,
+): unknown {
+  if (typeof base === 'string') {
+    return base;
   }
+
+  const root: Record<string, unknown> = isPlainRecord(base) ? base : {};
+  for (const entry of nested) {
+    let target = root;
+    for (const segment of entry.path.slice(0, -1)) {
+      const next = target[segment];
+      target = isPlainRecord(next) ? next : (target[segment] = {});
+    }
+    if (entry.decryptionIssue !== undefined) {
+      addDecryptionIssue([key, ...entry.path], entry.decryptionIssue);
+      continue;
+    }
+    warnIfBlank(sink, key, entry.variable, entry.raw);
+    target[entry.path[entry.path.length - 1]] = coerce(entry.raw, {
+      key,
+      variable: entry.variable,
+      schema: entry.schema,
+      nested: true,
+      path: entry.path,
+      sensitive: entry.encrypted !== undefined,
+    });
+  }
+
+  return root;
+}
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
 function isZodType(value: unknown): value is ZodTypeAny {
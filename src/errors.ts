@@ -0,0 +1,197 @@
+import { z } from 'zod/v4';
+import type { ZodType } from 'zod/v4';
+import { redactText } from './redact.js';
+import { describeSchemaType } from './schema-utils.js';
+
+/** Validation problems for a single source variable. */
+export interface EnvVariableFailure {
+  /** Source variable to fix (includes any prefix, alias, or nesting delimiter). */
+  readonly variable: string;
+  /** Declared schema key the variable feeds. */
+  readonly key: string;
+  /** Description of the expected value derived from the schema, e.g. `int` or `one of "a" | "b"`. */
+  readonly expected: string;
+  /** Redacted preview of the raw string (only its length for sensitive fields); absent for missing variables. */
+  readonly received?: string;
+  /** Zod messages for this variable, in issue order. */
+  readonly messages: readonly string[];
+}
+
+/** A failed object-level check (e.g. `superRefine`) spanning several variables. */
+export interface EnvRefinementFailure {
+  /** Issue path with variable names substituted for declared keys (empty for whole-object checks). */
+  readonly path: readonly PropertyKey[];
+  readonly message: string;
+}
+
+/** Structured breakdown of an `EnvValidationError`, grouped for operators and log pipelines. */
+export interface EnvValidationReport {
+  /** Required variables that were not set. */
+  readonly missing: readonly EnvVariableFailure[];
+  /** Variables that were set but did not validate. */
+  readonly invalid: readonly EnvVariableFailure[];
+  /** Cross-field refinement failures. */
+  readonly refinements: readonly EnvRefinementFailure[];
+}
+
+/** Where a Zod issue points, resolved by the `Env` that produced it. */
+export interface IssueTarget {
+  readonly key: string;
+  readonly variable: string;
+  readonly raw: string | undefined;
+  readonly schema: ZodType | undefined;
+  /** Keep the value out of messages and previews (sensitive schema or decrypted value). */
+  readonly sensitive: boolean;
+  /** The field validates on its own, so the issue came from an object-level refinement. */
+  readonly crossField: boolean;
+  /** Issue path with the variable substituted for the declared key (and any nested segments). */
+  readonly path: readonly PropertyKey[];
+}
+
+/**
+ * Thrown by `Env` factories when validation fails.
+ * It extends `ZodError` (with the usual `issues`, `format()`, and `flatten()`), so existing
+ * `catch (e) { if (e instanceof ZodError) … }` handlers keep working; issue paths name source variables.
+ * `message` is a terminal-friendly summary; `report` and `toJSON()` carry the same data for log pipelines.
+ */
+export class EnvValidationError extends z.ZodError {
+  /** Underlying Zod error (issue paths use source variable names). */
+  public readonly zodError: z.ZodError;
+  public readonly report: EnvValidationReport;
+
+  constructor(zodError: z.ZodError, report: EnvValidationReport) {
+    super(zodError.issues);
+    // Zod sets `name` and a JSON `message`; ours replace them, with `message` kept non-enumerable like Error's.
+    this.name = 'EnvValidationError';
+    Object.defineProperty(this, 'message', {
+      value: formatValidationReport(report),
+      enumerable: false,
+      configurable: true,
+      writable: true,
+    });
+    this.zodError = zodError;
+    this.report = report;
+    Error.captureStackTrace?.(this, EnvValidationError);
+  }
+
+  /** Structured form for JSON log pipelines. */
+  public toJSON(): { name: string; message: string } & EnvValidationReport {
+    return {
+      name: this.name,
+      message: `Env validation failed (${countProblems(this.report)})`,
+      ...this.report,
+    };
+  }
+}
+
+// `z.ZodError` instances are plain objects branded by Zod's traits, not `Error`s; keep ours an `Error`
+// (for `instanceof Error` checks and loggers) by linking its prototype to `Error.prototype`.
+Object.setPrototypeOf(EnvValidationError.prototype, Error.prototype);
+
+/** Group Zod issues by variable, split missing/invalid/cross-field, and wrap them in an `EnvValidationError`. */
+export function createValidationError(
+  error: z.ZodError,
+  locate: (path: readonly PropertyKey[]) => IssueTarget | undefined,
+): EnvValidationError {
+  const byVariable = new Map<string, { target: IssueTarget; messages: string[] }>();
+  const refinements: EnvRefinementFailure[] = [];
+  const issues = [];
+
+  for (const rawIssue of error.issues) {
+    const target = locate(rawIssue.path);
+    // Sensitive values never reach messages, even when a check echoes its input.
+    const issue = target?.sensitive
+      ? { ...rawIssue, message: redactText(rawIssue.message, target.raw) }
+      : rawIssue;
+    issues.push(target ? { ...issue, path: [...target.path] } : issue);
+
+    if (!target || target.crossField) {
+      refinements.push({ path: target ? target.path : issue.path, message: issue.message });
+      continue;
+    }
+
+    const entry = byVariable.get(target.variable);
+    if (entry) {
+      entry.messages.push(issue.message);
+    } else {
+      byVariable.set(target.variable, { target, messages: [issue.message] });
+    }
+  }
+
+  const missing: EnvVariableFailure[] = [];
+  const invalid: EnvVariableFailure[] = [];
+  for (const { target, messages } of byVariable.values()) {
+    const failure = {
+      variable: target.variable,
+      key: target.key,
+      expected: describeSchemaType(target.schema),
+      ...(target.raw !== undefined
+        ? { received: previewRaw(target.raw, target.sensitive ? 0 : 4) }
+        : {}),
+      messages,
+    };
+    (target.raw === undefined ? missing : invalid).push(failure);
+  }
+
+  return new EnvValidationError(new z.ZodError(issues), { missing, invalid, refinements });
+}
+
+/**
+ * Render a redacted preview of a raw value: at most the first quarter (capped at `maxVisible`
+ * characters, none for sensitive fields) stays visible, the rest is masked, and the length is reported.
+ */
+export function previewRaw(raw: string, maxVisible = 4): string {
+  if (raw === '') {
+    return '"" (empty)';
+  }
+
+  const visible = Math.min(maxVisible, Math.floor(raw.length / 4));
+  const masked = raw.slice(0, visible) + '*'.repeat(Math.min(raw.length - visible, 8));
+  return `${JSON.stringify(masked)} (${raw.length} chars)`;
+}
+
+function formatValidationReport(report: EnvValidationReport): string {
+  const lines = [`Env validation failed (${countProblems(report)}):`];
+
+  if (report.missing.length > 0) {
+    lines.push('  Missing:');
+    for (const failure of report.missing) {
+      lines.push(`    - ${failure.variable} (expected ${failure.expected})`);
+    }
+  }
+
+  if (report.invalid.length > 0) {
+    lines.push('  Invalid:');
+    for (const failure of report.invalid) {
+      lines.push(
+        `    - ${failure.variable}: expected ${failure.expected}, received ${failure.received}`,
+      );
+      for (const message of failure.messages) {
+        lines.push(`        ${message}`);
+      }
+    }
+  }
+
+  if (report.refinements.length > 0) {
+    lines.push('  Cross-field:');
+    for (const failure of report.refinements) {
+      const path = failure.path.map(String).join('.');
+      lines.push(`    - ${path === '' ? '(root)' : path}: ${failure.message}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function countProblems(report: EnvValidationReport): string {
+  const parts = [
+    [report.missing.length, 'missing'],
+    [report.invalid.length, 'invalid'],
+    [report.refinements.length, 'cross-field'],
+  ] as const;
+
+  return parts
+    .filter(([count]) => count > 0)
+    .map(([count, label]) => `${count} ${label}`)
+    .join(', ');
+}
@@ -0,0 +1,127 @@
+import { z } from 'zod/v4';
+import type { ZodRawShape, ZodType } from 'zod/v4';
+import { isSensitive } from './redact.js';
+import { describeSchemaType, getObjectShape, unwrapType } from './schema-utils.js';
+
+/** Options for `generateEnvExample()`. */
+export interface EnvExampleOptions {
+  /** Prepended to every variable name, matching the `prefix` option of the `Env` factories. */
+  readonly prefix?: string;
+}
+
+/** Variable names that look like they hold credentials; their values are left blank. */
+const SECRET_NAME = /SECRET|PASSWORD|PASSWD|TOKEN|PRIVATE|CREDENTIAL|API_?KEY|(^|_)KEY$/i;
+
+/**
+ * Render a `.env.example` template for a schema: one commented assignment per declared key, in
+ * declaration order. Comments carry the `.describe()` text, the expected type (including enum
+ * options), whether the key is required, and its default. Values are the default, else the schema's
+ * `example` metadata, else empty; secrets (`envSchemas.secret()`, `sensitive` metadata, or names
+ * such as `DB_PASSWORD` and `API_KEY`) are always empty. The output only depends on the schema,
+ * so it can be committed and diffed in CI.
+ *
+ * @example
+ * ```ts
+ * writeFileSync('.env.example', generateEnvExample(env.schema));
+ * // # HTTP port to listen on
+ * // # port, optional, default: 3000
+ * // PORT=3000
+ * ```
+ */
+export function generateEnvExample(
+  schema: ZodType | ZodRawShape,
+  options: EnvExampleOptions = {},
+): string {
+  const shape = isZodType(schema) ? getObjectShape(schema) : schema;
+  if (!shape) {
+    throw new Error('generateEnvExample(): schema must ultimately resolve to a ZodObject');
+  }
+
+  const prefix = options.prefix ?? '';
+  const blocks = Object.keys(shape).map((key) => {
+    const field = shape[key] as ZodType;
+    const secret = isSensitive(field) || SECRET_NAME.test(key);
+    const fallback = readDefault(field);
+    const required = fallback === undefined || !fallback.success;
+    const defaultValue =
+      fallback?.success && fallback.value !== undefined && !secret
+        ? quoteDotenvValue(formatEnvValue(fallback.value))
+        : undefined;
+    const summary = [
+      describeSchemaType(field),
+      required ? 'required' : 'optional',
+      ...(defaultValue !== undefined ? [`default: ${defaultValue}`] : []),
+    ].join(', ');
+    const description = getMetaText(field, 'description');
+    const example = secret ? undefined : getMetaText(field, 'example');
+    const value = defaultValue ?? quoteDotenvValue(example ?? '');
+
+    return [
+      ...(description ? description.split(/\r?\n/).map((line) => `# ${line}`.trimEnd()) : []),
+      `# ${summary}`,
+      `${prefix}${key}=${value}`,
+    ].join('\n');
+  });
+
+  return blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '';
+}
+
+/**
+ * What the field yields when its variable is unset: `success: false` when it is required, otherwise
+ * the value (`undefined` for plain optionals). `undefined` when only `parseAsync()` could tell.
+ */
+function readDefault(schema: ZodType): { success: boolean; value?: unknown } | undefined {
+  try {
+    const result = schema.safeParse(undefined);
+    return result.success ? { success: true, value: result.data } : { success: false };
+  } catch {
+    return undefined; // async checks cannot run synchronously; treat the field as required
+  }
+}
+
+/** String metadata set on the field or on the schema inside its optional/default wrappers. */
+function getMetaText(schema: ZodType, name: 'description' | 'example'): string | undefined {
+  const base = unwrapType(schema);
+  const value =
+    z.globalRegistry.get(schema)?.[name] ?? (base && z.globalRegistry.get(base)?.[name]);
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/** Env-variable form of a parsed default: strings as-is, structured values as JSON. */
+function formatEnvValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') {
+    return String(value);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Map) {
+    return JSON.stringify(Object.fromEntries(value));
+  }
+  if (value instanceof Set) {
+    return JSON.stringify([...value]);
+  }
+  return String(JSON.stringify(value));
+}
+
+/** Quote a value so `parseDotenv()` reads it back unchanged. */
+function quoteDotenvValue(value: string): string {
+  if (!/[\s#"'`\\]/.test(value)) {
+    return value;
+  }
+  if (!/['\r\n]/.test(value)) {
+    return `'${value}'`;
+  }
+
+  const escaped = value.replace(/[\\"\n\r\t]/g, (char) =>
+    char === '\n' ? '\\n' : char === '\r' ? '\\r' : char === '\t' ? '\\t' : `\\${char}`,
+  );
+  return `"${escaped}"`;
+}
+
+function isZodType(value: ZodType | ZodRawShape): value is ZodType {
+  return typeof (value as ZodType).safeParse === 'function';
+}
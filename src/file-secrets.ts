@@ -0,0 +1,34 @@
+import type { EnvFileReader } from './env-struct.js';
+
+/** Suffix of the sibling variable that points at a secret file (Docker/Kubernetes convention). */
+export const FILE_SECRET_SUFFIX = '_FILE';
+
+/**
+ * Read a mounted secret referenced by `<KEY>_FILE` through `readFile`, trimming surrounding
+ * whitespace. Errors name the variables and path involved but never include file contents.
+ */
+export function readFileSecret(
+  key: string,
+  fileVar: string,
+  path: string,
+  readFile: EnvFileReader | undefined,
+): string {
+  const problem = `Env: ${fileVar} points to "${path}" for ${key}, but`;
+  if (!readFile) {
+    throw new Error(
+      `${problem} no file reader was given; pass readFile (readEnvFile from 'env-struct/node' on Node)`,
+    );
+  }
+
+  let contents: string | undefined;
+  try {
+    contents = readFile(path);
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    throw new Error(`${problem} the file could not be read${code ? ` (${code})` : ''}`);
+  }
+  if (contents === undefined) {
+    throw new Error(`${problem} the file does not exist`);
+  }
+  return contents.trim();
+}
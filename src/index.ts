@@ -1,2 +1,27 @@
 export * from './env-struct.js';
+export * from './adapters.js';
+export {
+  caseInsensitiveEnums,
+  defaultEnvCoercers,
+  delimitedList,
+  keyValueMap,
+  registerEnvCoercer,
+  type DelimitedListOptions,
+  type KeyValueMapOptions,
+} from './coercers.js';
+export * from './dotenv.js';
+export type { EnvDrift, EnvVerifyResult } from './drift.js';
+export { ENCRYPTED_PREFIX } from './encryption.js';
+export {
+  EnvValidationError,
+  type EnvRefinementFailure,
+  type EnvValidationReport,
+  type EnvVariableFailure,
+} from './errors.js';
+export { generateEnvExample, type EnvExampleOptions } from './example.js';
+export { EnvInterpolationError } from './interpolate.js';
+export * from './schemas.js';
+export * from './sources.js';
+export { EnvUndeclaredVariableError } from './strict.js';
 export * from './utils.js';
+export { EnvWarningError } from './warnings.js';
@@ -0,0 +1,174 @@
+import type { EnvSource } from './env-struct.js';
+
+/** Thrown when `${VAR}` expansion hits a cycle, a `${VAR:?message}` guard, or malformed syntax. */
+export class EnvInterpolationError extends Error {
+  /** Variable whose value was being expanded when the failure occurred. */
+  public readonly key: string;
+  /** Chain of variables being expanded, outermost first (ends with the repeated name for cycles). */
+  public readonly chain: readonly string[];
+
+  constructor(message: string, key: string, chain: readonly string[]) {
+    super(message);
+    this.name = 'EnvInterpolationError';
+    this.key = key;
+    this.chain = chain;
+  }
+}
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_.-]*/;
+
+/**
+ * Build a memoized resolver that expands `${VAR}` references against the whole `source`.
+ * Supported forms mirror POSIX shells and docker compose:
+ * - `${VAR}` substitutes the (recursively expanded) value, or `''` when unset.
+ * - `${VAR:-default}` uses `default` (itself expanded) when `VAR` is unset or empty.
+ * - `${VAR:?message}` throws `EnvInterpolationError` when `VAR` is unset or empty.
+ * - `$$` produces a literal `$`; any other `$` is kept as-is.
+ *
+ * The resolver returns `undefined` for keys missing from `source`. Every variable it looks up,
+ * including those only referenced from other values, is added to `visited` when given.
+ */
+export function createExpander(
+  source: EnvSource,
+  visited?: Set<string>,
+): (key: string) => string | undefined {
+  const cache = new Map<string, string | undefined>();
+  const stack: string[] = [];
+
+  const resolve = (key: string): string | undefined => {
+    visited?.add(key);
+    if (cache.has(key)) {
+      return cache.get(key);
+    }
+
+    const cycleStart = stack.indexOf(key);
+    if (cycleStart !== -1) {
+      const chain = [...stack.slice(cycleStart), key];
+      throw new EnvInterpolationError(
+        `Env: circular variable reference ${chain.join(' -> ')}`,
+        stack[stack.length - 1],
+        [...stack, key],
+      );
+    }
+
+    const template = source[key];
+    if (template === undefined) {
+      return undefined;
+    }
+
+    stack.push(key);
+    let expanded: string;
+    try {
+      expanded = expandTemplate(template, resolve, key, stack);
+    } finally {
+      stack.pop();
+    }
+
+    cache.set(key, expanded);
+    return expanded;
+  };
+
+  return resolve;
+}
+
+function expandTemplate(
+  template: string,
+  resolve: (key: string) => string | undefined,
+  key: string,
+  stack: readonly string[],
+): string {
+  let output = '';
+  let i = 0;
+
+  while (i < template.length) {
+    const char = template[i];
+    const next = template[i + 1];
+
+    if (char !== '$' || (next !== '$' && next !== '{')) {
+      output += char;
+      i++;
+      continue;
+    }
+
+    if (next === '$') {
+      output += '$';
+      i += 2;
+      continue;
+    }
+
+    const close = findClosingBrace(template, i + 2);
+    if (close === -1) {
+      throw new EnvInterpolationError(`Env: unterminated "\${" in ${key}`, key, [...stack]);
+    }
+
+    output += substitute(template.slice(i + 2, close), resolve, key, stack);
+    i = close + 1;
+  }
+
+  return output;
+}
+
+function substitute(
+  expression: string,
+  resolve: (key: string) => string | undefined,
+  key: string,
+  stack: readonly string[],
+): string {
+  const chain = [...stack];
+  const invalid = () =>
+    new EnvInterpolationError(
+      `Env: invalid substitution "\${${expression}}" in ${key}`,
+      key,
+      chain,
+    );
+  const name = VARIABLE_NAME.exec(expression)?.[0];
+  if (!name) {
+    throw invalid();
+  }
+
+  const operator = expression.slice(name.length, name.length + 2);
+  const argument = expression.slice(name.length + 2);
+  const value = resolve(name);
+
+  if (expression.length === name.length) {
+    return value ?? '';
+  }
+
+  if (operator === ':-') {
+    return value === undefined || value === ''
+      ? expandTemplate(argument, resolve, key, stack)
+      : value;
+  }
+
+  if (operator === ':?') {
+    if (value === undefined || value === '') {
+      throw new EnvInterpolationError(
+        `Env: ${name} (referenced by ${key}) ${argument === '' ? 'is not set' : `- ${argument}`}`,
+        key,
+        chain,
+      );
+    }
+    return value;
+  }
+
+  throw invalid();
+}
+
+function findClosingBrace(template: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < template.length; i++) {
+    if (template[i] === '$' && template[i + 1] === '$') {
+      i++;
+    } else if (template[i] === '$' && template[i + 1] === '{') {
+      depth++;
+      i++;
+    } else if (template[i] === '}') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
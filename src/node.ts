@@ -0,0 +1,137 @@
+/**
+ * Node.js entry point (`env-struct/node`): helpers that need Node built-ins (`fs` and `crypto`),
+ * kept out of the main entry point so it still bundles for browsers, Vite, and Cloudflare Workers.
+ * Pass them in through the `Env` options.
+ *
+ * @example
+ * ```ts
+ * import { Env } from 'env-struct';
+ * import { createEnvDecryptor, readEnvFile } from 'env-struct/node';
+ *
+ * const env = Env.fromDotenv(schema, '.env', {
+ *   readFile: readEnvFile,
+ *   decrypt: createEnvDecryptor(process.env.ENV_MASTER_KEY ?? ''),
+ * });
+ * ```
+ */
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { ENCRYPTED_PREFIX } from './encryption.js';
+import type { EnvDecryptor, EnvFileReader } from './env-struct.js';
+
+const VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/** A 256-bit key as base64, hex, or raw bytes. */
+export type EnvEncryptionKey = string | Uint8Array;
+
+/** `EnvFileReader` backed by `fs.readFileSync()`; missing files read as `undefined`, other errors throw. */
+export const readEnvFile: EnvFileReader = (path) => {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+/** Generate a random key for `encryptEnvValue()` and `createEnvDecryptor()`, as base64. */
+export function createEnvEncryptionKey(): string {
+  return randomBytes(KEY_BYTES).toString('base64');
+}
+
+/**
+ * Encrypt `plaintext` with AES-256-GCM into `enc:v1:<iv>:<ciphertext>` (base64url; the ciphertext
+ * carries the authentication tag). Each call uses a fresh random IV, so equal values encrypt differently.
+ *
+ * @example
+ * ```ts
+ * const key = createEnvEncryptionKey(); // keep it out of the repository, e.g. in ENV_MASTER_KEY
+ * encryptEnvValue('hunter2', key); // "enc:v1:…:…", safe to commit in .env.production
+ * ```
+ */
+export function encryptEnvValue(plaintext: string, key: EnvEncryptionKey): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, parseEncryptionKey(key), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const sealed = Buffer.concat([ciphertext, cipher.getAuthTag()]);
+
+  return `${ENCRYPTED_PREFIX}${VERSION}:${iv.toString('base64url')}:${sealed.toString('base64url')}`;
+}
+
+/**
+ * Decrypt a value produced by `encryptEnvValue()`. Throws an `Error` whose message is safe to show
+ * (it never includes the value) when the value is malformed, was encrypted with another key, or
+ * was modified.
+ */
+export function decryptEnvValue(value: string, key: EnvEncryptionKey): string {
+  return decryptWith(value, parseEncryptionKey(key));
+}
+
+/**
+ * `EnvDecryptor` for the `decrypt` option that reads `encryptEnvValue()` values with `key`. The key
+ * is checked here, so a malformed one throws before any variable is read.
+ *
+ * @example
+ * ```ts
+ * const env = Env.fromZod(schema, process.env, {
+ *   decrypt: createEnvDecryptor(process.env.ENV_MASTER_KEY ?? ''),
+ * });
+ * ```
+ */
+export function createEnvDecryptor(key: EnvEncryptionKey): EnvDecryptor {
+  const keyBytes = parseEncryptionKey(key);
+  return (value) => decryptWith(value, keyBytes);
+}
+
+function decryptWith(value: string, keyBytes: Uint8Array): string {
+  const [prefix, version, iv, sealed, ...rest] = value.trim().split(':');
+  if (`${prefix}:` !== ENCRYPTED_PREFIX || version !== VERSION) {
+    throw new Error(
+      version && `${prefix}:` === ENCRYPTED_PREFIX
+        ? `Unsupported encrypted value version "${version}"`
+        : `Expected an encrypted value such as "${ENCRYPTED_PREFIX}${VERSION}:<iv>:<ciphertext>"`,
+    );
+  }
+
+  const ivBytes = Buffer.from(iv ?? '', 'base64url');
+  const sealedBytes = Buffer.from(sealed ?? '', 'base64url');
+  if (rest.length > 0 || ivBytes.length !== IV_BYTES || sealedBytes.length < TAG_BYTES) {
+    throw new Error(
+      `Malformed encrypted value; expected "${ENCRYPTED_PREFIX}${VERSION}:<iv>:<ciphertext>"`,
+    );
+  }
+
+  try {
+    const decipher = createDecipheriv(ALGORITHM, keyBytes, ivBytes);
+    decipher.setAuthTag(sealedBytes.subarray(sealedBytes.length - TAG_BYTES));
+    return Buffer.concat([
+      decipher.update(sealedBytes.subarray(0, sealedBytes.length - TAG_BYTES)),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    throw new Error('Could not decrypt value: wrong key or tampered ciphertext');
+  }
+}
+
+/** Decode a base64 (standard or URL-safe) or hex key; throws unless it is exactly 32 bytes. */
+function parseEncryptionKey(key: EnvEncryptionKey): Uint8Array {
+  const bytes =
+    typeof key !== 'string'
+      ? key
+      : /^[0-9a-f]{64}$/i.test(key.trim())
+        ? Buffer.from(key.trim(), 'hex')
+        : Buffer.from(key.trim(), 'base64');
+  if (bytes.length !== KEY_BYTES) {
+    throw new Error(
+      `Env: encryption key must be ${KEY_BYTES} bytes (base64 or hex), got ${bytes.length}`,
+    );
+  }
+
+  return bytes;
+}
@@ -0,0 +1,40 @@
+/**
+ * How raw strings are cleaned up before coercion. Every step is off by default, so values reach
+ * coercion exactly as the source holds them. Steps run in the order listed below.
+ */
+export interface EnvNormalizePolicy {
+  /** Convert CRLF (and lone CR) line endings to LF. */
+  readonly crlf?: boolean;
+  /** Remove leading and trailing whitespace. */
+  readonly trim?: boolean;
+  /** Remove one pair of matching single or double quotes around the whole value. */
+  readonly stripQuotes?: boolean;
+  /** Treat `''` as unset, so `.optional()` and `.default()` apply (e.g. CI exporting `FOO=`). */
+  readonly emptyAsUndefined?: boolean;
+}
+
+/** Apply `policy` to a raw value; `undefined` stays `undefined`. */
+export function normalizeRaw(
+  raw: string | undefined,
+  policy: EnvNormalizePolicy | undefined,
+): string | undefined {
+  if (raw === undefined || !policy) {
+    return raw;
+  }
+
+  let value = raw;
+  if (policy.crlf) {
+    value = value.replace(/\r\n?/g, '\n');
+  }
+  if (policy.trim) {
+    value = value.trim();
+  }
+  if (policy.stripQuotes && /^(["']).*\1$/s.test(value)) {
+    value = value.slice(1, -1);
+  }
+  if (policy.emptyAsUndefined && value === '') {
+    return undefined;
+  }
+
+  return value;
+}
@@ -0,0 +1,63 @@
+import type { EnvSource } from './env-struct.js';
+
+/** Where a raw env value was read from. */
+export interface EnvVarOrigin {
+  /** Name of the `composeSources()` layer that supplied the value. */
+  readonly layer?: string;
+  /** File the value was read from, when known. */
+  readonly file?: string;
+  /** 1-based line of the assignment within `file`. */
+  readonly line?: number;
+  /** `<KEY>_FILE` variable that pointed at `file` when resolved via the `fileSecrets` option. */
+  readonly fileVar?: string;
+}
+
+/** A lower-priority value that lost to the one recorded in `origin`. */
+export interface EnvVarShadowed extends EnvVarOrigin {
+  readonly raw: string;
+}
+
+/** Provenance recorded for a single key of a source record. */
+export interface SourceKeyProvenance {
+  readonly origin: EnvVarOrigin;
+  readonly shadowed?: readonly EnvVarShadowed[];
+}
+
+/**
+ * Side table of per-key provenance for source records built by this library (e.g. `parseDotenv()`).
+ * Keyed weakly by the source object so plain records stay plain and provenance follows the
+ * same object through `Env.fromZod()`, `pick()`, and `omit()` without extra plumbing.
+ */
+const provenanceBySource = new WeakMap<object, Readonly<Record<string, SourceKeyProvenance>>>();
+
+/** Attach per-key provenance to a source record. Internal: not re-exported from the package root. */
+export function recordSourceProvenance(
+  source: EnvSource,
+  provenance: Readonly<Record<string, SourceKeyProvenance>>,
+): void {
+  provenanceBySource.set(source, provenance);
+}
+
+/** Look up the recorded provenance for a key, if the source carries any. */
+export function getSourceProvenance(
+  source: EnvSource,
+  key: string,
+): SourceKeyProvenance | undefined {
+  const provenance = provenanceBySource.get(source);
+  if (!provenance || !Object.prototype.hasOwnProperty.call(provenance, key)) {
+    return undefined;
+  }
+
+  return provenance[key];
+}
+
+/** Copy `source` into a frozen record that keeps the provenance recorded for the original. */
+export function snapshotSource(source: EnvSource): EnvSource {
+  const snapshot: EnvSource = Object.freeze({ ...source });
+  const provenance = provenanceBySource.get(source);
+  if (provenance) {
+    provenanceBySource.set(snapshot, provenance);
+  }
+
+  return snapshot;
+}
@@ -0,0 +1,86 @@
+import { z } from 'zod/v4';
+import type { ZodType } from 'zod/v4';
+import { getObjectShape, unwrapType } from './schema-utils.js';
+
+/** Placeholder printed instead of a sensitive value. */
+export const REDACTED = '[REDACTED]';
+
+/** Key Node's `util.inspect()` (and so `console.log`) calls for a custom representation. */
+const INSPECT = Symbol.for('nodejs.util.inspect.custom');
+
+/**
+ * Whether a field is marked sensitive, via `envSchemas.secret()`, `envSchemas.sensitive()`, or
+ * `.meta({ sensitive: true })` on the field or the schema inside its optional/default wrappers.
+ */
+export function isSensitive(schema: ZodType | undefined): boolean {
+  if (!schema) {
+    return false;
+  }
+
+  const base = unwrapType(schema);
+  return (
+    z.globalRegistry.get(schema)?.sensitive === true ||
+    (base !== undefined && z.globalRegistry.get(base)?.sensitive === true)
+  );
+}
+
+/** Whether the field, or any field of the objects nested in it, is sensitive. */
+export function containsSensitive(schema: ZodType | undefined): boolean {
+  if (isSensitive(schema)) {
+    return true;
+  }
+
+  const shape = getObjectShape(schema);
+  return shape !== undefined && Object.values(shape).some((child) => containsSensitive(child));
+}
+
+/** Masked preview of a sensitive raw string: no characters, only the length (`''` stays empty). */
+export function redactRaw(raw: string): string {
+  return raw === '' ? raw : `${'*'.repeat(Math.min(raw.length, 8))} (${raw.length} chars)`;
+}
+
+/** Replace sensitive values, including sensitive fields of nested objects, with `REDACTED`. */
+export function redactValue(value: unknown, schema: ZodType | undefined): unknown {
+  if (value === undefined) {
+    return value;
+  }
+  if (isSensitive(schema)) {
+    return REDACTED;
+  }
+
+  const shape = getObjectShape(schema);
+  if (!shape || typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([field, fieldValue]) => [
+      field,
+      redactValue(fieldValue, shape[field]),
+    ]),
+  );
+}
+
+/**
+ * Print `target` as `redacted()` in `JSON.stringify()` and `util.inspect()`/`console.log`, without
+ * changing what its properties return. Both hooks are non-enumerable.
+ */
+export function withRedaction<T extends object>(target: T, redacted: () => unknown): T {
+  Object.defineProperty(target, 'toJSON', { value: redacted });
+  Object.defineProperty(target, INSPECT, { value: redacted });
+  return target;
+}
+
+/**
+ * Replace occurrences of `raw` (and its trimmed form) in `text`, so messages cannot echo a sensitive
+ * value. Values shorter than 3 characters are left alone: masking them would mangle unrelated text.
+ */
+export function redactText(text: string, raw: string | undefined): string {
+  let redacted = text;
+  for (const value of new Set([raw, raw?.trim()])) {
+    if (value !== undefined && value.length >= 3) {
+      redacted = redacted.split(value).join(REDACTED);
+    }
+  }
+  return redacted;
+}
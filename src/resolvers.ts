@@ -0,0 +1,59 @@
+/** Context passed to an `EnvResolver` alongside the reference it should fetch. */
+export interface EnvResolverContext {
+  /** Declared key whose raw value is being resolved. */
+  readonly key: string;
+  /** Full raw value, including the `scheme://` prefix. */
+  readonly raw: string;
+}
+
+/**
+ * Fetch the real value behind a `scheme://reference` raw value (e.g. from a secrets manager).
+ * Return `undefined` to treat the key as missing.
+ */
+export type EnvResolver = (
+  reference: string,
+  context: EnvResolverContext,
+) => string | undefined | Promise<string | undefined>;
+
+/** A raw value replaced by a resolver, keyed by declared name. */
+export interface ResolvedValue {
+  readonly raw: string | undefined;
+  /** Original `scheme://reference` string that was resolved. */
+  readonly reference: string;
+}
+
+const REFERENCE = /^([A-Za-z][A-Za-z0-9+.-]*):\/\/(.*)$/s;
+
+/**
+ * Run the matching resolver for every raw value shaped like `scheme://reference`, concurrently.
+ * Values whose scheme has no registered resolver are left untouched so URLs like `https://…` pass through.
+ */
+export async function resolveReferences(
+  rawByKey: Readonly<Record<string, string | undefined>>,
+  resolvers: Readonly<Record<string, EnvResolver>>,
+): Promise<Record<string, ResolvedValue>> {
+  const resolved: Record<string, ResolvedValue> = {};
+
+  await Promise.all(
+    Object.keys(rawByKey).map(async (key) => {
+      const raw = rawByKey[key];
+      const match = raw === undefined ? null : REFERENCE.exec(raw);
+      if (!raw || !match || !Object.prototype.hasOwnProperty.call(resolvers, match[1])) {
+        return;
+      }
+
+      const [, scheme, reference] = match;
+      try {
+        resolved[key] = Object.freeze({
+          raw: await resolvers[scheme](reference, { key, raw }),
+          reference: raw,
+        });
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Env: resolver "${scheme}" failed for ${key}: ${reason}`);
+      }
+    }),
+  );
+
+  return resolved;
+}
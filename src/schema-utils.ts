@@ -0,0 +1,196 @@
+/**
+ * Internal helpers for introspecting Zod schemas across wrapper types.
+ * Not re-exported from the package root.
+ */
+import { z } from 'zod/v4';
+import type { ZodObject, ZodType } from 'zod/v4';
+
+export function unwrapType(schema: ZodType | undefined): ZodType | undefined {
+  let current: ZodType | undefined = schema;
+  const seen = new Set<ZodType>();
+
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    const def = current._def as unknown as {
+      typeName?: string;
+      type?: string;
+      innerType?: ZodType;
+      schema?: ZodType;
+      out?: ZodType;
+    } | null;
+    const typeName = getTypeTag(def);
+
+    if (
+      typeName === 'ZodOptional' ||
+      typeName === 'optional' ||
+      typeName === 'ZodNullable' ||
+      typeName === 'nullable' ||
+      typeName === 'ZodDefault' ||
+      typeName === 'default' ||
+      typeName === 'ZodCatch' ||
+      typeName === 'catch' ||
+      typeName === 'ZodReadonly' ||
+      typeName === 'readonly'
+    ) {
+      current = def?.innerType;
+      continue;
+    }
+
+    if (
+      typeName === 'ZodEffects' ||
+      typeName === 'effects' ||
+      typeName === 'transform' ||
+      typeName === 'ZodBranded' ||
+      typeName === 'branded'
+    ) {
+      const next = def?.schema;
+      if (next) {
+        current = next;
+        continue;
+      }
+      break;
+    }
+
+    if (typeName === 'ZodPipeline' || typeName === 'pipeline' || typeName === 'pipe') {
+      const next = (def as { in?: ZodType | undefined })?.in ?? def?.out;
+      if (next) {
+        current = next;
+        continue;
+      }
+      break;
+    }
+
+    break;
+  }
+
+  return current;
+}
+
+export function getObjectShape(schema: ZodType | undefined): Record<string, ZodType> | undefined {
+  const base = unwrapType(schema);
+  const typeName = getTypeTag(base?._def);
+  if (typeName !== 'ZodObject' && typeName !== 'object') {
+    return undefined;
+  }
+
+  return (base as ZodObject<any>).shape as Record<string, ZodType>;
+}
+
+export function getTypeTag(def: { typeName?: string; type?: string } | null | undefined) {
+  if (!def) {
+    return undefined;
+  }
+
+  return (def.typeName as string | undefined) ?? (def.type as string | undefined);
+}
+
+/** `envSchemas` metadata of the unwrapped schema, if it has any (see `EnvSchemaMeta`). */
+export function getEnvMeta(
+  schema: ZodType | undefined,
+): { envType: string; [key: string]: unknown } | undefined {
+  const base = unwrapType(schema);
+  const meta = base ? z.globalRegistry.get(base) : undefined;
+  return typeof meta?.envType === 'string' ? (meta as { envType: string }) : undefined;
+}
+
+/** Encodings declared with `envSchemas.base64()` and friends, outermost first (empty when none). */
+export function getEnvEncodings(schema: ZodType | undefined): readonly string[] {
+  const base = unwrapType(schema);
+  const meta = (schema && z.globalRegistry.get(schema)) ?? (base && z.globalRegistry.get(base));
+  return Array.isArray(meta?.envEncodings) ? meta.envEncodings : [];
+}
+
+export function isObjectLike(typeName: string): boolean {
+  return (
+    typeName === 'ZodObject' ||
+    typeName === 'object' ||
+    typeName === 'ZodArray' ||
+    typeName === 'array' ||
+    typeName === 'ZodRecord' ||
+    typeName === 'record' ||
+    typeName === 'ZodMap' ||
+    typeName === 'map' ||
+    typeName === 'ZodTuple' ||
+    typeName === 'tuple' ||
+    typeName === 'ZodSet' ||
+    typeName === 'set'
+  );
+}
+
+/**
+ * Human-readable description of the value a schema expects, e.g. `number`, `int`, `url`,
+ * `one of "a" | "b"`, `list`, `map`, or `JSON object`. Wrappers such as optional/default are unwrapped first.
+ */
+export function describeSchemaType(schema: ZodType | undefined): string {
+  const base = unwrapType(schema);
+  const def = base?._def as unknown as
+    | {
+        type?: string;
+        typeName?: string;
+        format?: string;
+        checks?: Array<{ _zod?: { def?: { check?: string; format?: string } } }>;
+        values?: readonly unknown[];
+        options?: readonly ZodType[];
+      }
+    | undefined;
+  const typeName = getTypeTag(def);
+  const envType = getEnvMeta(base)?.envType;
+  if (envType === 'port' || envType === 'duration' || envType === 'host') {
+    return envType;
+  }
+  if (envType === 'bytes') {
+    return 'byte size';
+  }
+  if (envType === 'epoch') {
+    return 'timestamp (ms)';
+  }
+
+  const format =
+    def?.format ??
+    def?.checks?.map((check) => check._zod?.def?.format).find((value) => value !== undefined);
+
+  switch (typeName) {
+    case 'string':
+    case 'ZodString':
+      return format ?? 'string';
+    case 'number':
+    case 'ZodNumber':
+      return format && format.includes('int') ? 'int' : 'number';
+    case 'enum':
+    case 'ZodEnum':
+    case 'ZodNativeEnum':
+      // Zod's own value set leaves out the reverse mappings of numeric TypeScript enums.
+      return `one of ${[...(base?._zod.values ?? [])].map(formatValue).join(' | ')}${
+        envType === 'enumCI' ? ' (case-insensitive)' : ''
+      }`;
+    case 'literal':
+    case 'ZodLiteral':
+      return (def?.values ?? []).map(formatValue).join(' | ');
+    case 'union':
+    case 'ZodUnion':
+      return (def?.options ?? []).map((option) => describeSchemaType(option)).join(' | ');
+    case 'object':
+    case 'ZodObject':
+      return 'JSON object';
+    case 'record':
+    case 'ZodRecord':
+    case 'map':
+    case 'ZodMap':
+      return 'map';
+    case 'array':
+    case 'ZodArray':
+    case 'tuple':
+    case 'ZodTuple':
+    case 'set':
+    case 'ZodSet':
+      return 'list';
+    case undefined:
+      return 'unknown';
+    default:
+      return typeName.replace(/^Zod/, '').toLowerCase();
+  }
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'bigint' ? `${value}n` : String(JSON.stringify(value));
+}
@@ -0,0 +1,315 @@
+import { z } from 'zod/v4';
+import type { ZodType } from 'zod/v4';
+import { getEnvEncodings, getEnvMeta } from './schema-utils.js';
+
+/** Kind of value an `envSchemas` helper describes. */
+export type EnvSchemaType =
+  | 'port'
+  | 'duration'
+  | 'bytes'
+  | 'epoch'
+  | 'url'
+  | 'urls'
+  | 'host'
+  | 'json'
+  | 'enumCI'
+  | 'secret';
+
+/**
+ * Metadata attached (via Zod's `.meta()`) to schemas built by `envSchemas`, for documentation and
+ * example generation. It survives chained checks such as `.max()` and `.describe()`.
+ */
+export interface EnvSchemaMeta {
+  readonly envType: EnvSchemaType;
+  readonly description?: string;
+  /** A representative raw value, as it would be written in the environment. */
+  readonly example?: string;
+  /** The value must not be printed or logged. */
+  readonly sensitive?: boolean;
+}
+
+/**
+ * Encodings `envSchemas.base64()`, `hex()`, and `unescapeNewlines()` strip before coercion:
+ * `base64` (standard or URL-safe alphabet, padding and line breaks optional), `hex`, and
+ * `unescapeNewlines` (literal `\n` and `\r\n` escapes become line breaks).
+ */
+export type EnvEncoding = 'base64' | 'hex' | 'unescapeNewlines';
+
+/** Options for `envSchemas.url()` and `envSchemas.urls()`. */
+export interface EnvUrlOptions {
+  /** Allowed protocols without the trailing colon, e.g. `['https']` (default: any). */
+  readonly protocols?: readonly string[];
+}
+
+/**
+ * Read the `envSchemas` metadata of a field schema, looking through optional/default wrappers.
+ * Returns `undefined` for schemas not built by `envSchemas`.
+ */
+export function getEnvSchemaMeta(schema: ZodType | undefined): EnvSchemaMeta | undefined {
+  return getEnvMeta(schema) as EnvSchemaMeta | undefined;
+}
+
+const DURATION_UNITS: Readonly<Record<string, number>> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Parse a duration such as `250ms`, `30s`, `1h30m`, or `1.5d` into milliseconds (rounded).
+ * Units are `ms`, `s`, `m`, `h`, and `d`; a bare number is milliseconds. Returns `undefined` when
+ * the value is not a duration.
+ */
+export function parseDuration(raw: string): number | undefined {
+  const normalized = raw.trim();
+  if (/^\d+(\.\d+)?$/.test(normalized)) {
+    return Math.round(Number(normalized));
+  }
+
+  const segment = /(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)\s*/y;
+  let total = 0;
+  let position = 0;
+  while (position < normalized.length) {
+    segment.lastIndex = position;
+    const match = segment.exec(normalized);
+    if (!match) {
+      return undefined;
+    }
+    total += Number(match[1]) * DURATION_UNITS[match[2]];
+    position = segment.lastIndex;
+  }
+
+  return position === 0 ? undefined : Math.round(total);
+}
+
+const BYTE_UNITS: Readonly<Record<string, number>> = {
+  b: 1,
+  kb: 1e3,
+  mb: 1e6,
+  gb: 1e9,
+  tb: 1e12,
+  pb: 1e15,
+  kib: 2 ** 10,
+  mib: 2 ** 20,
+  gib: 2 ** 30,
+  tib: 2 ** 40,
+  pib: 2 ** 50,
+};
+
+/**
+ * Parse a byte size such as `512KiB`, `2GB`, or `1.5 MB` into bytes (rounded). `KB`/`MB`/… are powers
+ * of 1000 and `KiB`/`MiB`/… powers of 1024; units are case-insensitive and a bare number is bytes.
+ * Returns `undefined` when the value is not a byte size.
+ */
+export function parseBytes(raw: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/i.exec(raw.trim());
+  const factor = match && (match[2] === '' ? 1 : BYTE_UNITS[match[2].toLowerCase()]);
+  return match && factor ? Math.round(Number(match[1]) * factor) : undefined;
+}
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Decode one layer of `encoding` into text. Throws an `Error` describing the problem when `raw` is
+ * not valid for the encoding or the decoded bytes are not UTF-8 text.
+ */
+export function decodeEnvValue(raw: string, encoding: EnvEncoding): string {
+  if (encoding === 'unescapeNewlines') {
+    return raw.replace(/\\r\\n|\\n/g, '\n');
+  }
+
+  const bytes = encoding === 'base64' ? decodeBase64(raw) : decodeHex(raw);
+  try {
+    return utf8.decode(bytes);
+  } catch {
+    throw new Error(`Decoded ${encoding} value is not UTF-8 text`);
+  }
+}
+
+function decodeBase64(raw: string): Uint8Array {
+  const compact = raw.replace(/\s+/g, '').replace(/-/g, '+').replace(/_/g, '/');
+  const data = compact.replace(/={1,2}$/, '');
+  if (!/^[A-Za-z0-9+/]*$/.test(data) || data.length % 4 === 1) {
+    throw new Error('Invalid base64 value');
+  }
+
+  const binary = atob(data.padEnd(Math.ceil(data.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function decodeHex(raw: string): Uint8Array {
+  const compact = raw.trim().replace(/^0x/i, '');
+  if (!/^(?:[0-9a-f]{2})*$/i.test(compact)) {
+    throw new Error('Invalid hex value');
+  }
+
+  return Uint8Array.from(compact.match(/../g) ?? [], (pair) => parseInt(pair, 16));
+}
+
+const hostnameFormat = z.hostname();
+const ipv6Format = z.ipv6();
+
+function port() {
+  return z.number().int().min(0).max(65535).meta({
+    envType: 'port',
+    description: 'TCP/UDP port (0-65535)',
+    example: '8080',
+  });
+}
+
+function duration() {
+  return z.number().int().nonnegative().meta({
+    envType: 'duration',
+    description: 'Duration in milliseconds; accepts ms, s, m, h, and d units (e.g. 1h30m)',
+    example: '30s',
+  });
+}
+
+function bytes() {
+  return z.number().int().nonnegative().meta({
+    envType: 'bytes',
+    description: 'Size in bytes; accepts KB/MB/GB (1000) and KiB/MiB/GiB (1024) units',
+    example: '512KiB',
+  });
+}
+
+function epoch() {
+  return z.date().meta({
+    envType: 'epoch',
+    description: 'Unix timestamp in milliseconds',
+    example: '1714521600000',
+  });
+}
+
+function url(options: EnvUrlOptions = {}) {
+  const protocols = options.protocols?.map((protocol) => protocol.replace(/:$/, ''));
+  const schema = protocols?.length
+    ? z.url({
+        protocol: new RegExp(`^(?:${protocols.map(escapeRegExp).join('|')})$`),
+        error: `Invalid URL: expected protocol ${protocols.join(' or ')}`,
+      })
+    : z.url();
+
+  return schema.meta({
+    envType: 'url',
+    description: protocols?.length ? `URL (${protocols.join(', ')})` : 'URL',
+    example: `${protocols?.[0] ?? 'https'}://example.com`,
+  });
+}
+
+function urls(options: EnvUrlOptions = {}) {
+  return z.array(url(options)).meta({
+    envType: 'urls',
+    description: 'Comma-separated list of URLs',
+    example: 'https://a.example.com,https://b.example.com',
+  });
+}
+
+function host() {
+  return z
+    .string()
+    .refine(
+      (value) => hostnameFormat.safeParse(value).success || ipv6Format.safeParse(value).success,
+      'Expected a hostname or IP address',
+    )
+    .meta({
+      envType: 'host',
+      description: 'Hostname or IP address, without scheme or port',
+      example: 'localhost',
+    });
+}
+
+function json<T extends ZodType>(schema: T): T {
+  return schema.meta({
+    description: 'JSON-encoded value',
+    ...z.globalRegistry.get(schema),
+    envType: 'json',
+  });
+}
+
+function enumCI<const T extends readonly [string, ...string[]]>(values: T) {
+  return z.enum(values).meta({
+    envType: 'enumCI',
+    description: `One of ${values.join(', ')} (case-insensitive)`,
+    example: values[0],
+  });
+}
+
+function secret() {
+  return z.string().min(1).meta({
+    envType: 'secret',
+    description: 'Secret value',
+    sensitive: true,
+  });
+}
+
+function sensitive<T extends ZodType>(schema: T): T {
+  return schema.meta({ sensitive: true });
+}
+
+function base64<T extends ZodType>(schema: T): T {
+  return withEncoding(schema, 'base64');
+}
+
+function hex<T extends ZodType>(schema: T): T {
+  return withEncoding(schema, 'hex');
+}
+
+function unescapeNewlines<T extends ZodType>(schema: T): T {
+  return withEncoding(schema, 'unescapeNewlines');
+}
+
+/**
+ * Zod schemas for common environment values. Each returns a regular Zod schema (so `.optional()`,
+ * `.default()`, `.max()`, … chain as usual) tagged with `EnvSchemaMeta`; `Env` coerces durations,
+ * byte sizes, timestamps, JSON, and case-insensitive enums from their raw strings.
+ *
+ * - `port()`: integer in 0–65535.
+ * - `duration()`: `30s`, `5m`, `1h30m` (or bare milliseconds) as milliseconds.
+ * - `bytes()`: `512KiB`, `2GB` (or bare bytes) as bytes.
+ * - `epoch()`: Unix timestamp in milliseconds as a `Date` (plain `z.date()` only reads ISO 8601).
+ * - `url({ protocols })` / `urls({ protocols })`: one URL, or a comma-separated list, optionally limited to protocols.
+ * - `host()`: hostname or IP address.
+ * - `json(schema)`: a JSON-encoded value validated by `schema`; malformed JSON fails validation.
+ * - `enumCI([...])`: enum matched ignoring case, returning the declared spelling.
+ * - `secret()`: non-empty string marked `sensitive`.
+ * - `sensitive(schema)`: mark any field sensitive, so `meta`, logging, and errors mask its value.
+ * - `base64(schema)`, `hex(schema)`, `unescapeNewlines(schema)`: decode the raw value, then coerce it
+ *   for `schema` (so `base64(z.object(…))` decodes and JSON-parses). Wrappers nest outermost first;
+ *   decoding failures are reported as issues on the key.
+ *
+ * @example
+ * ```ts
+ * const env = Env.fromZod(z.object({ PORT: e.port().default(3000), TIMEOUT: e.duration() }));
+ * ```
+ */
+export const envSchemas = Object.freeze({
+  port,
+  duration,
+  bytes,
+  epoch,
+  url,
+  urls,
+  host,
+  json,
+  enumCI,
+  secret,
+  sensitive,
+  base64,
+  hex,
+  unescapeNewlines,
+});
+
+/** Short alias for `envSchemas`. */
+export const e = envSchemas;
+
+/** Tag `schema` as holding `encoding`, outside any encodings it already declares. */
+function withEncoding<T extends ZodType>(schema: T, encoding: EnvEncoding): T {
+  return schema.meta({ envEncodings: [encoding, ...getEnvEncodings(schema)] });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
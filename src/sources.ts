@@ -0,0 +1,104 @@
+import type { EnvSource } from './env-struct.js';
+import {
+  getSourceProvenance,
+  recordSourceProvenance,
+  type EnvVarOrigin,
+  type EnvVarShadowed,
+  type SourceKeyProvenance,
+} from './provenance.js';
+
+/** A named source participating in `composeSources()`. */
+export interface EnvSourceLayer {
+  /** Label reported in `env.meta[KEY].origin.layer` (e.g. `'.env.local'` or `'process.env'`). */
+  readonly name: string;
+  /** Values supplied by this layer; `undefined` layers are skipped (handy for optional files). */
+  readonly source: EnvSource | undefined;
+}
+
+/**
+ * Merge ordered source layers into a single `EnvSource`, lowest priority first.
+ * Later layers override earlier ones; `undefined` values never override. Each winning value
+ * remembers its layer (plus file/line when the layer came from `parseDotenv()`), and the values it
+ * overrode are listed in declaration order, so `env.meta[KEY].origin` and `env.meta[KEY].shadowed`
+ * explain exactly where a setting came from.
+ *
+ * Values are copied when composing; later mutations of a layer (including `process.env`) are not observed.
+ *
+ * @example
+ * ```ts
+ * import { Env, composeSources, loadDotenv, z } from 'env-struct';
+ * import { readEnvFile } from 'env-struct/node';
+ *
+ * const file = (path: string) => loadDotenv({ path, optional: true }, { readFile: readEnvFile });
+ *
+ * const source = composeSources([
+ *   { name: 'defaults', source: file('.env.defaults') },
+ *   { name: '.env', source: file('.env') },
+ *   { name: '.env.local', source: file('.env.local') },
+ *   { name: 'process.env', source: process.env },
+ * ]);
+ *
+ * const env = Env.fromZod({ PORT: z.number() }, source);
+ * env.meta.PORT.origin; // { layer: '.env.local', file: '.env.local', line: 2 }
+ * env.meta.PORT.shadowed; // [{ layer: '.env', file: '.env', line: 1, raw: '3000' }]
+ * ```
+ */
+export function composeSources(layers: readonly EnvSourceLayer[]): EnvSource {
+  const seen = new Set<string>();
+  const composed: Record<string, string> = {};
+  const origins: Record<string, EnvVarOrigin> = {};
+  const shadowedByKey: Record<string, EnvVarShadowed[]> = {};
+
+  for (const layer of layers) {
+    if (seen.has(layer.name)) {
+      throw new Error(`composeSources(): duplicate layer name "${layer.name}"`);
+    }
+    seen.add(layer.name);
+
+    const source = layer.source;
+    if (!source) {
+      continue;
+    }
+
+    for (const key of Object.keys(source)) {
+      const raw = source[key];
+      if (raw === undefined) {
+        continue;
+      }
+
+      if (Object.prototype.hasOwnProperty.call(composed, key)) {
+        (shadowedByKey[key] ??= []).push(Object.freeze({ ...origins[key], raw: composed[key] }));
+      }
+
+      composed[key] = raw;
+      origins[key] = Object.freeze({
+        layer: layer.name,
+        ...layerOrigin(source, key),
+      });
+    }
+  }
+
+  const provenance: Record<string, SourceKeyProvenance> = {};
+  for (const key of Object.keys(composed)) {
+    const shadowed = shadowedByKey[key];
+    provenance[key] = Object.freeze(
+      shadowed
+        ? { origin: origins[key], shadowed: Object.freeze(shadowed) }
+        : { origin: origins[key] },
+    );
+  }
+
+  recordSourceProvenance(composed, Object.freeze(provenance));
+  return composed;
+}
+
+/** File/line recorded on a layer (e.g. by `parseDotenv()`), without any nested layer name. */
+function layerOrigin(source: EnvSource, key: string): EnvVarOrigin {
+  const origin = getSourceProvenance(source, key)?.origin;
+  if (!origin) {
+    return {};
+  }
+
+  const { layer: _layer, ...rest } = origin;
+  return rest;
+}
@@ -0,0 +1,160 @@
+import type { EnvSource } from './env-struct.js';
+import type { WarningSink } from './warnings.js';
+
+/** Configuration for the `strict` option. */
+export interface EnvStrictOptions {
+  /**
+   * `'throw'` (default) raises an `EnvUndeclaredVariableError`; `'warn'` raises one
+   * `UNDECLARED_VARIABLE` warning per variable instead.
+   */
+  readonly level?: 'warn' | 'throw';
+  /** Also scan source variables matching this pattern, regardless of prefix. */
+  readonly pattern?: RegExp;
+  /** Variables known to be unrelated to the schema, by exact name or pattern. */
+  readonly allow?: readonly (string | RegExp)[];
+}
+
+/** A source variable that looks like it was meant for the schema but is not declared. */
+export interface EnvUndeclaredVariable {
+  readonly variable: string;
+  /** Closest declared variable by edit distance, when one is close enough to be a likely typo. */
+  readonly suggestion?: string;
+}
+
+/** Thrown by `strict` mode when the source holds variables the schema does not declare. */
+export class EnvUndeclaredVariableError extends Error {
+  public readonly undeclared: readonly EnvUndeclaredVariable[];
+
+  constructor(undeclared: readonly EnvUndeclaredVariable[]) {
+    super(
+      [
+        `Env: ${undeclared.length} undeclared variable${undeclared.length === 1 ? '' : 's'} in strict mode:`,
+        ...undeclared.map((entry) => `  - ${describeUndeclared(entry)}`),
+      ].join('\n'),
+    );
+    this.name = 'EnvUndeclaredVariableError';
+    this.undeclared = undeclared;
+  }
+}
+
+/**
+ * Scan `source` for variables that are in scope but not declared, and throw or warn through `sink`
+ * per `options.level`.
+ * A variable is in scope when it starts with one of `prefixes`, matches `options.pattern`, or is a
+ * near miss of a declared variable (`DATABSE_URL` for `DATABASE_URL`).
+ */
+export function checkUndeclaredVariables(
+  source: EnvSource,
+  declared: readonly string[],
+  prefixes: readonly string[],
+  options: EnvStrictOptions,
+  sink: WarningSink,
+): void {
+  const declaredSet = new Set(declared);
+  const undeclared: EnvUndeclaredVariable[] = [];
+
+  for (const variable of Object.keys(source).sort()) {
+    if (source[variable] === undefined || declaredSet.has(variable)) {
+      continue;
+    }
+    const inScope =
+      prefixes.some((prefix) => variable.startsWith(prefix)) ||
+      matches(options.pattern, variable) ||
+      closestMatch(variable, declared, nearMissThreshold(variable)) !== undefined;
+    if (!inScope || options.allow?.some((entry) => matches(entry, variable))) {
+      continue;
+    }
+
+    const suggestion = closestMatch(variable, declared, suggestionThreshold(variable));
+    undeclared.push(suggestion === undefined ? { variable } : { variable, suggestion });
+  }
+
+  if (undeclared.length === 0) {
+    return;
+  }
+
+  if ((options.level ?? 'throw') === 'throw') {
+    throw new EnvUndeclaredVariableError(undeclared);
+  }
+
+  for (const entry of undeclared) {
+    sink.emit({
+      code: 'UNDECLARED_VARIABLE',
+      variable: entry.variable,
+      message: `Env: undeclared variable ${describeUndeclared(entry)}`,
+    });
+  }
+}
+
+function describeUndeclared({ variable, suggestion }: EnvUndeclaredVariable): string {
+  return suggestion === undefined ? variable : `${variable} (did you mean ${suggestion}?)`;
+}
+
+function matches(pattern: string | RegExp | undefined, variable: string): boolean {
+  if (pattern === undefined) {
+    return false;
+  }
+  if (typeof pattern === 'string') {
+    return pattern === variable;
+  }
+
+  pattern.lastIndex = 0; // tolerate /g and /y patterns
+  return pattern.test(variable);
+}
+
+/**
+ * Edit distance up to which an in-scope variable gets a suggestion: a third of the name's length
+ * (at least 2), so unrelated variables do not get misleading suggestions.
+ */
+function suggestionThreshold(variable: string): number {
+  return Math.max(2, Math.floor(variable.length / 3));
+}
+
+/**
+ * Edit distance up to which an otherwise out-of-scope variable counts as a misspelling: a fifth of
+ * the name's length (at least 1), so `HOME` is not mistaken for a declared `HOST`.
+ */
+function nearMissThreshold(variable: string): number {
+  return Math.max(1, Math.floor(variable.length / 5));
+}
+
+/** Closest candidate by edit distance, when it is within `threshold`. */
+function closestMatch(
+  variable: string,
+  candidates: readonly string[],
+  threshold: number,
+): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(variable, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return bestDistance <= threshold ? best : undefined;
+}
+
+/** Optimal string alignment distance: Levenshtein plus adjacent transpositions (`PROT` -> `PORT` is 1). */
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[rows - 1][cols - 1];
+}
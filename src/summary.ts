@@ -0,0 +1,82 @@
+/** One line of `env.summary()`. */
+export interface EnvSummaryRow {
+  /** Source variable (including any prefix or alias). */
+  readonly name: string;
+  /** `set` when the source supplied a value, `default` when the schema did, otherwise `missing`. */
+  readonly source: 'set' | 'default' | 'missing';
+  readonly type: string;
+  /** Parsed value, already redacted for sensitive fields. */
+  readonly value: unknown;
+}
+
+const HEADERS = ['NAME', 'SOURCE', 'TYPE', 'VALUE'] as const;
+const MAX_VALUE_LENGTH = 60;
+
+/** Render rows as a left-aligned, space-padded table with a header line. */
+export function formatSummary(rows: readonly EnvSummaryRow[]): string {
+  const cells = [
+    [...HEADERS],
+    ...rows.map((row) => [row.name, row.source, row.type, formatValue(row.value)]),
+  ];
+  const widths = HEADERS.map((_, column) => Math.max(...cells.map((line) => line[column].length)));
+
+  return cells
+    .map((line) =>
+      line
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd(),
+    )
+    .join('\n');
+}
+
+/** Single-line rendering of a parsed value, truncated to keep the table readable. */
+function formatValue(value: unknown): string {
+  let text: string;
+  if (value === undefined) {
+    text = '-';
+  } else if (typeof value === 'string') {
+    text = value;
+  } else if (typeof value === 'bigint') {
+    text = `${value}n`;
+  } else if (value instanceof Date) {
+    text = Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+  } else {
+    text = String(JSON.stringify(toJsonValue(value)));
+  }
+
+  const line = text.replace(/\r?\n/g, '\\n');
+  return line.length > MAX_VALUE_LENGTH ? `${line.slice(0, MAX_VALUE_LENGTH - 1)}…` : line;
+}
+
+/**
+ * Copy of a parsed value that `JSON.stringify()` can write without losing data: bigints become
+ * strings, Maps objects, and Sets arrays, also inside arrays and plain objects.
+ */
+export function toJsonValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value instanceof Map) {
+    return Object.fromEntries(
+      [...value].map(([key, entry]) => [String(key), toJsonValue(entry)] as const),
+    );
+  }
+  if (value instanceof Set || Array.isArray(value)) {
+    return [...value].map(toJsonValue);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, toJsonValue(entry)] as const),
+    );
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value) as unknown;
+  return prototype === Object.prototype || prototype === null;
+}
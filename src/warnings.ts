@@ -0,0 +1,80 @@
+/**
+ * Non-fatal problems noticed while building an `Env`:
+ * - `CAMEL_COLLISION`: two keys normalize to the same `camel` name; the later one is not exposed there.
+ * - `JSON_FALLBACK`: a value that should be (or looks like) JSON did not parse, so the raw string was used.
+ * - `BLANK_VALUE`: a variable is set to an empty or whitespace-only string.
+ * - `DEFAULT_USED`: a variable is unset and the schema supplied a value (e.g. `.default()`).
+ * - `UNDECLARED_VARIABLE`: `strict` with `level: 'warn'` found a variable the schema does not declare.
+ * - `NO_SOURCE`: no source was passed or detected, so every variable is treated as missing.
+ */
+export type EnvWarningCode =
+  | 'CAMEL_COLLISION'
+  | 'JSON_FALLBACK'
+  | 'BLANK_VALUE'
+  | 'DEFAULT_USED'
+  | 'UNDECLARED_VARIABLE'
+  | 'NO_SOURCE';
+
+/** How a warning code is handled: collected (default), dropped, or raised as an `EnvWarningError`. */
+export type EnvWarningLevel = 'warn' | 'ignore' | 'throw';
+
+export interface EnvWarning {
+  readonly code: EnvWarningCode;
+  /** Declared schema key the warning concerns; absent for `UNDECLARED_VARIABLE` and `NO_SOURCE`. */
+  readonly key?: string;
+  /** Source variable involved, when it differs from `key` (prefix, alias, nesting delimiter, or undeclared). */
+  readonly variable?: string;
+  readonly message: string;
+}
+
+/** Thrown in place of a warning whose code is configured as `'throw'`. */
+export class EnvWarningError extends Error {
+  public readonly code: EnvWarningCode;
+  public readonly warning: EnvWarning;
+
+  constructor(warning: EnvWarning) {
+    super(warning.message);
+    this.name = 'EnvWarningError';
+    this.code = warning.code;
+    this.warning = warning;
+  }
+}
+
+/** Collects warnings for one `Env` construction, applying per-code levels. */
+export interface WarningSink {
+  readonly collected: EnvWarning[];
+  emit(warning: EnvWarning): void;
+}
+
+/**
+ * Create a sink for the `warnings`/`onWarning` options. Derived envs (`pick`/`omit`) pass `notify: false`
+ * so warnings their parent already reported are collected again without re-running `onWarning`.
+ */
+export function createWarningSink(
+  options: {
+    readonly warnings?: Readonly<Partial<Record<EnvWarningCode, EnvWarningLevel>>>;
+    readonly onWarning?: (warning: EnvWarning) => void;
+  },
+  notify = true,
+): WarningSink {
+  const collected: EnvWarning[] = [];
+
+  return {
+    collected,
+    emit(warning) {
+      const level = options.warnings?.[warning.code] ?? 'warn';
+      if (level === 'ignore') {
+        return;
+      }
+      if (level === 'throw') {
+        throw new EnvWarningError(warning);
+      }
+
+      const frozen = Object.freeze({ ...warning });
+      collected.push(frozen);
+      if (notify) {
+        options.onWarning?.(frozen);
+      }
+    },
+  };
+}
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod/v4';
+import {
+  bunEnvAdapter,
+  denoEnvAdapter,
+  detectEnvSource,
+  Env,
+  EnvWarningError,
+  fromCloudflareBindings,
+  importMetaEnvAdapter,
+  listEnvAdapters,
+  processEnvAdapter,
+  registerEnvAdapter,
+} from '../src';
+
+/** Hide `process.env` so only the adapters under test can supply a source. */
+const withoutProcessEnv = <T>(run: () => T): T => {
+  const env = process.env;
+  Object.defineProperty(process, 'env', { value: undefined, configurable: true, writable: true });
+  try {
+    return run();
+  } finally {
+    Object.defineProperty(process, 'env', { value: env, configurable: true, writable: true });
+  }
+};
+
+describe('runtime adapters', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('reads process.env by default', () => {
+    expect(processEnvAdapter.detect()).toBe(process.env);
+    expect(detectEnvSource()).toEqual({ adapter: 'process.env', source: process.env });
+  });
+
+  it('reads Deno.env.toObject() and tolerates missing permissions', () => {
+    vi.stubGlobal('Deno', { env: { toObject: () => ({ PORT: '8000' }) } });
+    expect(denoEnvAdapter.detect()).toEqual({ PORT: '8000' });
+
+    vi.stubGlobal('Deno', {
+      env: {
+        toObject: () => {
+          throw new Error('PermissionDenied');
+        },
+      },
+    });
+    expect(denoEnvAdapter.detect()).toBeUndefined();
+
+    vi.unstubAllGlobals();
+    expect(denoEnvAdapter.detect()).toBeUndefined();
+  });
+
+  it('reads Bun.env', () => {
+    expect(bunEnvAdapter.detect()).toBeUndefined();
+
+    vi.stubGlobal('Bun', { env: { PORT: '3000' } });
+    expect(bunEnvAdapter.detect()).toEqual({ PORT: '3000' });
+  });
+
+  it('falls back to Deno and Bun when process.env is unavailable', () => {
+    vi.stubGlobal('Deno', { env: { toObject: () => ({ PORT: '8000' }) } });
+
+    const env = withoutProcessEnv(() => Env.fromZod({ PORT: z.number() }));
+
+    expect(env.data.PORT).toBe(8000);
+  });
+
+  it('wraps import.meta.env and stringifies non-string values', () => {
+    const adapter = importMetaEnvAdapter({ VITE_API_URL: 'https://api', DEV: true, MODE: 'dev' });
+
+    expect(adapter.name).toBe('import.meta.env');
+    expect(adapter.detect()).toEqual({ VITE_API_URL: 'https://api', DEV: 'true', MODE: 'dev' });
+    expect(importMetaEnvAdapter(undefined).detect()).toBeUndefined();
+  });
+
+  it('prefers registered adapters and supports unregistering', () => {
+    const unregister = registerEnvAdapter(importMetaEnvAdapter({ FLAG: 'on' }));
+
+    expect(listEnvAdapters()).toEqual(['import.meta.env', 'process.env', 'Deno.env', 'Bun.env']);
+    expect(Env.fromZod({ FLAG: z.boolean() }).data.FLAG).toBe(true);
+
+    unregister();
+    expect(listEnvAdapters()).toEqual(['process.env', 'Deno.env', 'Bun.env']);
+  });
+
+  it('converts Cloudflare bindings into a source', () => {
+    class KVNamespace {
+      get() {
+        return null;
+      }
+    }
+
+    const source = fromCloudflareBindings({
+      API_TOKEN: 'secret',
+      RETRIES: 3,
+      DEBUG: false,
+      ROUTES: { auth: 'https://auth' },
+      CACHE: new KVNamespace(),
+    });
+
+    expect(source).toEqual({
+      API_TOKEN: 'secret',
+      RETRIES: '3',
+      DEBUG: 'false',
+      ROUTES: '{"auth":"https://auth"}',
+    });
+    expect(
+      Env.fromZod({ ROUTES: z.record(z.string(), z.string()), RETRIES: z.number() }, source).data,
+    ).toEqual({ ROUTES: { auth: 'https://auth' }, RETRIES: 3 });
+  });
+
+  describe('missingSource', () => {
+    it('warns by default and treats every variable as missing', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const onWarning = vi.fn();
+
+      const env = withoutProcessEnv(() =>
+        Env.fromZod({ PORT: z.number().default(1) }, undefined, { onWarning }),
+      );
+
+      expect(env.data.PORT).toBe(1);
+      expect(env.warnings[0]).toEqual({
+        code: 'NO_SOURCE',
+        message: expect.stringMatching(
+          /^Env: no environment source found \(checked process\.env, Deno\.env, Bun\.env\)/,
+        ),
+      });
+      expect(onWarning).toHaveBeenCalledWith(env.warnings[0]);
+      expect(warn).not.toHaveBeenCalled();
+      expect(() =>
+        withoutProcessEnv(() =>
+          Env.fromZod({ PORT: z.number().default(1) }, undefined, {
+            warnings: { NO_SOURCE: 'throw' },
+          }),
+        ),
+      ).toThrow(EnvWarningError);
+    });
+
+    it('can stay silent or throw', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      withoutProcessEnv(() => {
+        expect(Env.fromNames(['A'] as const, undefined, { missingSource: 'empty' }).data.A).toBe(
+          undefined,
+        );
+        expect(() => Env.fromZod({ A: z.string() }, undefined, { missingSource: 'throw' })).toThrow(
+          /no environment source found/,
+        );
+      });
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import { z, ZodError } from 'zod/v4';
+import { Env, EnvValidationError, type EnvResolver } from '../src';
+
+/** In-memory stand-in for a secrets manager. */
+const createVault = (secrets: Record<string, string>) => {
+  const reads: string[] = [];
+  const resolver: EnvResolver = async (name) => {
+    reads.push(name);
+    await Promise.resolve();
+    return secrets[name];
+  };
+  return { reads, resolver };
+};
+
+describe('Env.fromZodAsync', () => {
+  it('awaits resolvers and exposes the usual accessors', async () => {
+    const vault = createVault({ 'prod/db-password': 'hunter2', 'prod/port': '5432' });
+
+    const env = await Env.fromZodAsync(
+      { DB_PASSWORD: z.string(), DB_PORT: z.number(), API_URL: z.string().url() },
+      {
+        DB_PASSWORD: 'secret://prod/db-password',
+        DB_PORT: 'secret://prod/port',
+        API_URL: 'https://api.example.com',
+      },
+      { resolvers: { secret: vault.resolver } },
+    );
+
+    expect(env.data).toEqual({
+      DB_PASSWORD: 'hunter2',
+      DB_PORT: 5432,
+      API_URL: 'https://api.example.com',
+    });
+    expect(env.camel.dbPort).toBe(5432);
+    expect(env.keys.DB_PASSWORD).toBe('DB_PASSWORD');
+    expect(env.meta.DB_PASSWORD).toEqual({
+      name: 'DB_PASSWORD',
+      val: 'hunter2',
+      raw: 'hunter2',
+      reference: 'secret://prod/db-password',
+    });
+    expect(env.meta.API_URL.reference).toBeUndefined();
+    expect(vault.reads.sort()).toEqual(['prod/db-password', 'prod/port']);
+  });
+
+  it('supports async refinements through parseAsync', async () => {
+    const schema = z.object({
+      TOKEN: z.string().refine(async (value) => value.startsWith('tok_'), 'invalid token'),
+    });
+
+    expect(() => Env.fromZod(schema, { TOKEN: 'tok_123' })).toThrow();
+
+    const env = await Env.fromZodAsync(schema, { TOKEN: 'tok_123' });
+    expect(env.data.TOKEN).toBe('tok_123');
+
+    await expect(Env.fromZodAsync(schema, { TOKEN: 'nope' })).rejects.toThrow(ZodError);
+  });
+
+  it('treats undefined resolver results as missing values', async () => {
+    const vault = createVault({});
+
+    const env = await Env.fromZodAsync(
+      { OPTIONAL: z.string().default('fallback') },
+      { OPTIONAL: 'secret://missing' },
+      { resolvers: { secret: vault.resolver } },
+    );
+
+    expect(env.data.OPTIONAL).toBe('fallback');
+    expect(env.meta.OPTIONAL.raw).toBeUndefined();
+    expect(env.meta.OPTIONAL.reference).toBe('secret://missing');
+  });
+
+  it('wraps resolver failures with the key and scheme', async () => {
+    await expect(
+      Env.fromZodAsync(
+        { DB_PASSWORD: z.string() },
+        { DB_PASSWORD: 'secret://db' },
+        {
+          resolvers: {
+            secret: () => Promise.reject(new Error('vault sealed')),
+          },
+        },
+      ),
+    ).rejects.toThrowError('Env: resolver "secret" failed for DB_PASSWORD: vault sealed');
+  });
+
+  it('never echoes resolved values in validation errors', async () => {
+    const vault = createVault({ 'prod/db-password': 'hunter22', 'prod/port': 'hunter-port' });
+    const attempt = Env.fromZodAsync(
+      { DB_PASSWORD: z.string().min(20), DB_PORT: z.number() },
+      { DB_PASSWORD: 'secret://prod/db-password', DB_PORT: 'secret://prod/port' },
+      { resolvers: { secret: vault.resolver } },
+    );
+
+    await expect(attempt).rejects.toThrow(EnvValidationError);
+    const error = (await attempt.catch((caught: unknown) => caught)) as EnvValidationError;
+    expect([error.message, JSON.stringify(error.report)].join('\n')).not.toMatch(/hu|hunter/);
+    expect(error.report.invalid.map(({ received }) => received)).toEqual([
+      '"********" (8 chars)',
+      '"********" (11 chars)',
+    ]);
+  });
+
+  it('reuses resolved values when deriving envs', async () => {
+    const vault = createVault({ a: '1', b: '2' });
+    const env = await Env.fromZodAsync(
+      { A: z.number(), B: z.number() },
+      { A: 'secret://a', B: 'secret://b' },
+      { resolvers: { secret: vault.resolver } },
+    );
+
+    const subset = env.omit('A');
+
+    expect(subset.data.B).toBe(2);
+    expect(subset.meta.B.reference).toBe('secret://b');
+    expect(vault.reads).toHaveLength(2);
+  });
+
+  it('collects raw values once and keeps them in meta', async () => {
+    const reads: string[] = [];
+    const env = await Env.fromZodAsync(
+      { TOKEN: z.string(), URL: z.string(), PORT: z.number() },
+      {
+        TOKEN_FILE: '/run/secrets/token',
+        URL: 'http://${HOST}',
+        HOST: 'db',
+        PORT: 'secret://port',
+      },
+      {
+        fileSecrets: true,
+        expand: true,
+        normalize: { trim: true },
+        readFile: (path) => {
+          reads.push(path);
+          return `tok_${reads.length}`;
+        },
+        resolvers: { secret: () => ' 5432 ' },
+      },
+    );
+
+    expect(reads).toEqual(['/run/secrets/token']);
+    expect(env.data.TOKEN).toBe('tok_1');
+    expect(env.reveal('TOKEN').raw).toBe('tok_1');
+    expect(env.meta.URL.template).toBe('http://${HOST}');
+    expect(env.meta.PORT).toMatchObject({ raw: ' 5432 ', normalized: '5432', val: 5432 });
+  });
+
+  it('derives envs whose fields have async checks', async () => {
+    const env = await Env.fromZodAsync(
+      {
+        TOKEN: z.string().refine(async (value) => value.startsWith('tok_'), 'invalid token'),
+        PORT: z.number(),
+        HOST: z.string(),
+      },
+      { TOKEN: 'tok_123', PORT: '8080', HOST: 'localhost' },
+    );
+
+    expect(env.pick('TOKEN', 'PORT').data).toEqual({ TOKEN: 'tok_123', PORT: 8080 });
+    expect(env.omit('TOKEN').data).toEqual({ PORT: 8080, HOST: 'localhost' });
+    expect(env.omit('HOST').pick('TOKEN').meta.TOKEN.raw).toBe('tok_123');
+
+    const picked = env.safePick('TOKEN');
+    expect(picked.success).toBe(true);
+    expect(picked.success && picked.env.data.TOKEN).toBe('tok_123');
+  });
+});
@@ -0,0 +1,496 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { z } from 'zod/v4';
+import {
+  caseInsensitiveEnums,
+  defaultEnvCoercers,
+  delimitedList,
+  e,
+  Env,
+  EnvValidationError,
+  type EnvWarning,
+  keyValueMap,
+  registerEnvCoercer,
+  type EnvCoercerRule,
+} from '../src';
+import { captureValidationError } from './helpers';
+
+const enabledDisabled: EnvCoercerRule = {
+  match: 'boolean',
+  coerce: (raw, context) => {
+    const value = raw.trim().toLowerCase();
+    if (value === 'enabled') {
+      return true;
+    }
+    if (value === 'disabled') {
+      return false;
+    }
+    return context.next(raw);
+  },
+};
+
+describe('coercer registry', () => {
+  const cleanups: Array<() => void> = [];
+
+  afterEach(() => {
+    while (cleanups.length > 0) {
+      cleanups.pop()?.();
+    }
+  });
+
+  it('exposes the built-in rules as the default registry', () => {
+    expect(defaultEnvCoercers.length).toBeGreaterThan(0);
+    for (const rule of defaultEnvCoercers) {
+      expect(rule).toEqual({ match: expect.anything(), coerce: expect.any(Function) });
+    }
+    expect(Object.isFrozen(defaultEnvCoercers)).toBe(true);
+  });
+
+  it('extends the defaults per call and falls through with next()', () => {
+    const schema = { A: z.boolean(), B: z.boolean(), C: z.boolean() };
+    const env = Env.fromZod(
+      schema,
+      { A: 'enabled', B: 'Disabled', C: 'yes' },
+      {
+        coercers: [enabledDisabled],
+      },
+    );
+
+    expect(env.data).toEqual({ A: true, B: false, C: true });
+    expect(() => Env.fromZod(schema, { A: 'enabled', B: 'no', C: 'no' })).toThrow();
+  });
+
+  it('matches rules by predicate on the unwrapped schema', () => {
+    const trimStrings: EnvCoercerRule = {
+      match: (base) => base instanceof z.ZodString,
+      coerce: (raw) => raw.trim(),
+    };
+
+    const env = Env.fromZod(
+      { NAME: z.string().optional(), PORT: z.number() },
+      { NAME: '  api  ', PORT: ' 80 ' },
+      { coercers: [trimStrings] },
+    );
+
+    expect(env.data).toEqual({ NAME: 'api', PORT: 80 });
+    expect(env.meta.NAME.raw).toBe('  api  ');
+  });
+
+  it('applies globally registered rules until they are unregistered', () => {
+    const unregister = registerEnvCoercer(enabledDisabled);
+    cleanups.push(unregister);
+
+    expect(Env.fromZod({ FLAG: z.boolean() }, { FLAG: 'enabled' }).data.FLAG).toBe(true);
+
+    unregister();
+    expect(() => Env.fromZod({ FLAG: z.boolean() }, { FLAG: 'enabled' })).toThrow();
+  });
+
+  it('tries per-call rules before global ones', () => {
+    cleanups.push(registerEnvCoercer({ match: 'number', coerce: () => 1 }));
+
+    const env = Env.fromZod(
+      { N: z.number() },
+      { N: '5' },
+      {
+        coercers: [{ match: 'number', coerce: () => 2 }],
+      },
+    );
+
+    expect(env.data.N).toBe(2);
+  });
+
+  it('runs per-key coercers first, with the matching rules behind next()', () => {
+    const env = Env.fromZod(
+      { TIMEOUT: z.number(), RETRIES: z.number() },
+      { TIMEOUT: '5s', RETRIES: '3' },
+      {
+        keyCoercers: {
+          TIMEOUT: (raw, context) =>
+            raw.endsWith('s') ? context.next(raw.slice(0, -1)) : context.next(raw),
+        },
+      },
+    );
+
+    expect(env.data).toEqual({ TIMEOUT: 5, RETRIES: 3 });
+    expect(env.meta.TIMEOUT.raw).toBe('5s');
+  });
+
+  it('passes key, variable, and type information in the context', () => {
+    const seen: unknown[] = [];
+    Env.fromZod(
+      { DB: z.object({ PORT: z.number().default(5432) }) },
+      { APP_DB__PORT: '6543' },
+      {
+        prefix: 'APP_',
+        nestedDelimiter: '__',
+        coercers: [
+          {
+            match: 'number',
+            coerce: (raw, { key, variable, typeName, next }) => {
+              seen.push({ key, variable, typeName });
+              return next(raw);
+            },
+          },
+        ],
+      },
+    );
+
+    expect(seen).toEqual([{ key: 'DB', variable: 'APP_DB__PORT', typeName: 'number' }]);
+  });
+
+  it('lets coercers raise warnings', () => {
+    const env = Env.fromZod(
+      { CONFIG: z.object({ debug: z.boolean().optional() }) },
+      { CONFIG: 'none' },
+      {
+        coercers: [
+          {
+            match: 'object',
+            coerce: (raw, context) => {
+              if (raw !== 'none') {
+                return context.next(raw);
+              }
+              context.warn('JSON_FALLBACK', `Env: ${context.variable} is "none"; using {}`);
+              return {};
+            },
+          },
+        ],
+      },
+    );
+
+    expect(env.data.CONFIG).toEqual({});
+    expect(env.warnings).toEqual([
+      { code: 'JSON_FALLBACK', key: 'CONFIG', message: 'Env: CONFIG is "none"; using {}' },
+    ]);
+  });
+});
+
+describe('built-in coercion', () => {
+  it('parses bigints', () => {
+    const env = Env.fromZod(
+      { MAX: z.bigint(), MIN: z.bigint().optional() },
+      { MAX: ' 9007199254740993 ' },
+    );
+
+    expect(env.data.MAX).toBe(9007199254740993n);
+    expect(() => Env.fromZod({ MAX: z.bigint() }, { MAX: '1.5' })).toThrow(EnvValidationError);
+  });
+
+  it('parses ISO dates, and epoch milliseconds only for e.epoch()', () => {
+    const env = Env.fromZod(
+      { STARTS: z.date(), ENDS: e.epoch() },
+      { STARTS: '2024-05-01T00:00:00Z', ENDS: '1714521600000' },
+    );
+
+    expect(env.data.STARTS).toEqual(new Date('2024-05-01T00:00:00Z'));
+    expect(env.data.ENDS).toEqual(new Date(1714521600000));
+    expect(() => Env.fromZod({ STARTS: z.date() }, { STARTS: 'soon' })).toThrow(EnvValidationError);
+    expect(() => Env.fromZod({ ENDS: e.epoch() }, { ENDS: '2024-05-01' })).toThrowError(
+      'Expected a Unix timestamp in milliseconds but found "2024-05-01"',
+    );
+  });
+
+  it('does not read bare numbers as dates', () => {
+    expect(() => Env.fromZod({ SINCE: z.date() }, { SINCE: '2024' })).toThrow(EnvValidationError);
+    expect(() => Env.fromZod({ SINCE: z.date() }, { SINCE: '1714521600000' })).toThrow(
+      EnvValidationError,
+    );
+  });
+
+  it('matches enum values exactly by default', () => {
+    const schema = { LEVEL: z.enum(['debug', 'info']) };
+
+    expect(Env.fromZod(schema, { LEVEL: 'info' }).data.LEVEL).toBe('info');
+    expect(() => Env.fromZod(schema, { LEVEL: 'INFO' })).toThrow(EnvValidationError);
+  });
+
+  it('matches enum values ignoring case when opted in', () => {
+    const schema = { LEVEL: z.enum(['debug', 'info']), MODE: z.enum(['a', 'A', 'b']) };
+    const source = { LEVEL: ' INFO ', MODE: 'A' };
+
+    const env = Env.fromZod(schema, source, { coercers: [caseInsensitiveEnums] });
+    expect(env.data).toEqual({ LEVEL: 'info', MODE: 'A' });
+
+    const scoped = Env.fromZod(
+      schema,
+      { LEVEL: 'Debug', MODE: 'b' },
+      {
+        keyCoercers: { LEVEL: caseInsensitiveEnums.coerce },
+      },
+    ).data;
+    expect(scoped.LEVEL).toBe('debug');
+  });
+
+  it('maps numeric native enum values', () => {
+    enum Priority {
+      Low = 1,
+      High = 2,
+    }
+    enum Region {
+      East = 'us-east-1',
+    }
+
+    const env = Env.fromZod(
+      { PRIORITY: z.nativeEnum(Priority), REGION: z.nativeEnum(Region) },
+      { PRIORITY: '2', REGION: 'us-east-1' },
+    );
+
+    expect(env.data).toEqual({ PRIORITY: Priority.High, REGION: Region.East });
+  });
+
+  it('maps literal values of any type', () => {
+    const env = Env.fromZod(
+      {
+        PORT: z.literal(8080),
+        ENABLED: z.literal(true),
+        MODE: z.literal('auto'),
+        SIZE: z.literal([1n, 2n]),
+      },
+      { PORT: '8080', ENABLED: 'true', MODE: 'auto', SIZE: '2' },
+    );
+
+    expect(env.data).toEqual({ PORT: 8080, ENABLED: true, MODE: 'auto', SIZE: 2n });
+    expect(() => Env.fromZod({ PORT: z.literal(8080) }, { PORT: '80' })).toThrow(
+      EnvValidationError,
+    );
+  });
+
+  it('tries union members in order', () => {
+    const schema = {
+      WORKERS: z.union([z.number().int(), z.literal('auto')]),
+      TIMEOUT: z.union([z.boolean(), z.number()]).optional(),
+      LABEL: z.union([z.string(), z.number()]),
+      RETRY: z.union([z.object({ attempts: z.number() }), z.number()]),
+    };
+
+    expect(
+      Env.fromZod(schema, { WORKERS: '4', TIMEOUT: '0', LABEL: '42', RETRY: '{"attempts":3}' })
+        .data,
+    ).toEqual({ WORKERS: 4, TIMEOUT: false, LABEL: '42', RETRY: { attempts: 3 } });
+    expect(
+      Env.fromZod(schema, { WORKERS: 'auto', TIMEOUT: '30', LABEL: 'x', RETRY: '5' }).data,
+    ).toEqual({ WORKERS: 'auto', TIMEOUT: 30, LABEL: 'x', RETRY: 5 });
+    expect(() => Env.fromZod(schema, { WORKERS: 'many', LABEL: 'x', RETRY: '1' })).toThrow(
+      EnvValidationError,
+    );
+  });
+
+  it('keeps issues and warnings only from the member that matched', () => {
+    const warnings: EnvWarning[] = [];
+    const env = Env.fromZod(
+      {
+        LIMITS: z.union([z.record(z.string(), z.number()), z.literal('none')]),
+        TIMEOUT: z.union([e.duration(), z.literal('off')]),
+        LABEL: z.union([z.object({ name: z.string() }), z.string()]),
+      },
+      { LIMITS: 'none', TIMEOUT: 'off', LABEL: '{draft' },
+      { onWarning: (warning) => warnings.push(warning) },
+    );
+
+    expect(env.data).toEqual({ LIMITS: 'none', TIMEOUT: 'off', LABEL: '{draft' });
+    expect(warnings).toEqual([]);
+    expect(() =>
+      Env.fromZod(
+        { LIMITS: z.union([z.record(z.string(), z.number()), z.literal('none')]) },
+        {
+          LIMITS: 'a=1;b',
+        },
+      ),
+    ).toThrowError('Expected "key=value" but found "b"');
+  });
+
+  it('unwraps optional and default wrappers around the new types', () => {
+    const env = Env.fromZod(
+      {
+        SINCE: z.date().optional(),
+        LIMIT: z.bigint().default(10n),
+        PORT: z.union([z.literal(80), z.literal(443)]).nullable(),
+      },
+      { SINCE: '2024-01-01', PORT: '443' },
+    );
+
+    expect(env.data).toEqual({ SINCE: new Date('2024-01-01'), LIMIT: 10n, PORT: 443 });
+  });
+});
+
+describe('delimited lists', () => {
+  it('splits comma-separated values and trims elements', () => {
+    const env = Env.fromZod(
+      { ALLOWED_ORIGINS: z.array(z.string().url()) },
+      { ALLOWED_ORIGINS: 'https://a.com, https://b.com ,https://c.com' },
+    );
+
+    expect(env.data.ALLOWED_ORIGINS).toEqual(['https://a.com', 'https://b.com', 'https://c.com']);
+    expect(env.meta.ALLOWED_ORIGINS.raw).toBe('https://a.com, https://b.com ,https://c.com');
+  });
+
+  it('coerces each element with its own schema', () => {
+    const env = Env.fromZod(
+      {
+        PORTS: z.array(z.number().int()),
+        FLAGS: z.set(z.boolean()),
+        PAIR: z.tuple([z.string(), z.number()]),
+        REST: z.tuple([z.string()], z.bigint()),
+        LEVELS: z.array(z.enum(['info', 'warn'])).optional(),
+      },
+      { PORTS: '80,443', FLAGS: 'yes,no', PAIR: 'web,8080', REST: 'x,1,2', LEVELS: 'info' },
+    );
+
+    expect(env.data).toEqual({
+      PORTS: [80, 443],
+      FLAGS: new Set([true, false]),
+      PAIR: ['web', 8080],
+      REST: ['x', 1n, 2n],
+      LEVELS: ['info'],
+    });
+  });
+
+  it('still accepts JSON arrays', () => {
+    const env = Env.fromZod(
+      { PORTS: z.array(z.number()), NAMES: z.set(z.string()) },
+      { PORTS: ' [80, 443]', NAMES: '["a","b","a"]' },
+    );
+
+    expect(env.data).toEqual({ PORTS: [80, 443], NAMES: new Set(['a', 'b']) });
+  });
+
+  it('treats an empty value as an empty list', () => {
+    const env = Env.fromZod({ HOSTS: z.array(z.string()) }, { HOSTS: '' });
+
+    expect(env.data.HOSTS).toEqual([]);
+  });
+
+  it('points error paths at the offending element', () => {
+    const error = captureValidationError(() =>
+      Env.fromZod(
+        { PORTS: z.array(z.number().int()) },
+        { APP_PORTS: '80,http,443' },
+        { prefix: 'APP_' },
+      ),
+    );
+
+    expect(error.issues.map((issue) => issue.path)).toEqual([['APP_PORTS', 1]]);
+    expect(error.report.invalid.map((failure) => failure.variable)).toEqual(['APP_PORTS']);
+  });
+
+  it('supports custom separators per call or per key', () => {
+    const schema = { PATHS: z.array(z.string()), IDS: z.array(z.number()) };
+    const source = { PATHS: '/usr/bin:/bin', IDS: '1; 2; 3' };
+
+    const env = Env.fromZod(schema, source, {
+      coercers: [delimitedList({ separator: /\s*;\s*/ })],
+      keyCoercers: { PATHS: delimitedList({ separator: ':' }).coerce },
+    });
+
+    expect(env.data).toEqual({ PATHS: ['/usr/bin', '/bin'], IDS: [1, 2, 3] });
+  });
+
+  it('keeps whitespace when trimming is disabled', () => {
+    const env = Env.fromZod(
+      { PARTS: z.array(z.string()) },
+      { PARTS: 'a, b' },
+      {
+        coercers: [delimitedList({ trim: false })],
+      },
+    );
+
+    expect(env.data.PARTS).toEqual(['a', ' b']);
+  });
+});
+
+describe('key/value maps', () => {
+  it('reads key=value pairs for records', () => {
+    const env = Env.fromZod(
+      { SERVICE_ROUTES: z.record(z.string(), z.string().url()) },
+      { SERVICE_ROUTES: 'auth=https://x/auth; billing = https://x/billing;' },
+    );
+
+    expect(env.data.SERVICE_ROUTES).toEqual({
+      auth: 'https://x/auth',
+      billing: 'https://x/billing',
+    });
+  });
+
+  it('coerces values with the value schema and map keys with the key schema', () => {
+    const env = Env.fromZod(
+      {
+        LIMITS: z.record(z.string(), z.number()),
+        SHARDS: z.map(z.number(), z.array(z.string())),
+        FLAGS: z.record(z.enum(['beta', 'dark']), z.boolean()),
+      },
+      { LIMITS: 'free=10;pro=100', SHARDS: '1=a,b;2=c', FLAGS: 'beta=yes;dark=off' },
+    );
+
+    expect(env.data).toEqual({
+      LIMITS: { free: 10, pro: 100 },
+      SHARDS: new Map([
+        [1, ['a', 'b']],
+        [2, ['c']],
+      ]),
+      FLAGS: { beta: true, dark: false },
+    });
+  });
+
+  it('keeps separators inside quotes or after a backslash', () => {
+    const env = Env.fromZod(
+      { HEADERS: z.record(z.string(), z.string()) },
+      { HEADERS: 'accept="text/html;q=0.9"; x-note=a\\=b\\;c; "odd key" = " padded "' },
+    );
+
+    expect(env.data.HEADERS).toEqual({
+      accept: 'text/html;q=0.9',
+      'x-note': 'a=b;c',
+      'odd key': ' padded ',
+    });
+  });
+
+  it('still accepts JSON objects', () => {
+    const env = Env.fromZod(
+      { ROUTES: z.record(z.string(), z.string()), PORTS: z.map(z.string(), z.number()) },
+      { ROUTES: '{"auth":"/auth"}', PORTS: '{"http":80}' },
+    );
+
+    expect(env.data).toEqual({ ROUTES: { auth: '/auth' }, PORTS: new Map([['http', 80]]) });
+  });
+
+  it('supports custom separators', () => {
+    const env = Env.fromZod(
+      { ROUTES: z.record(z.string(), z.number()) },
+      { ROUTES: 'a:1,b:2' },
+      { coercers: [keyValueMap({ entrySeparator: ',', pairSeparator: ':' })] },
+    );
+
+    expect(env.data.ROUTES).toEqual({ a: 1, b: 2 });
+  });
+
+  it('reports duplicate keys and malformed entries as validation issues', () => {
+    const result = Env.safeFromZod(
+      { ROUTES: z.record(z.string(), z.string()), PORT: z.number() },
+      { APP_ROUTES: 'auth=/a;auth=/b;billing', APP_PORT: '80' },
+      { prefix: 'APP_' },
+    );
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues.map(({ path, message }) => ({ path, message }))).toEqual([
+        { path: ['APP_ROUTES', 'auth'], message: 'Duplicate key "auth"' },
+        { path: ['APP_ROUTES'], message: 'Expected "key=value" but found "billing"' },
+      ]);
+      expect(result.error.report.invalid.map((failure) => failure.variable)).toEqual([
+        'APP_ROUTES',
+      ]);
+      expect(Object.keys(result.partial)).toEqual(['PORT']);
+    }
+  });
+
+  it('points value errors at the offending key', () => {
+    const result = Env.safeFromZod(
+      { LIMITS: z.record(z.string(), z.number()) },
+      { LIMITS: 'free=10;pro=lots' },
+    );
+
+    expect(!result.success && result.error.issues.map((issue) => issue.path)).toEqual([
+      ['LIMITS', 'pro'],
+    ]);
+  });
+});
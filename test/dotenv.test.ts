@@ -0,0 +1,148 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { z, ZodError } from 'zod/v4';
+import { DotenvParseError, Env, loadDotenv, parseDotenv, parseDotenvEntries } from '../src';
+import { readEnvFile } from '../src/node';
+
+describe('parseDotenv', () => {
+  it('parses plain, exported, and commented assignments', () => {
+    const source = parseDotenv(
+      [
+        '# leading comment',
+        'PLAIN=value',
+        'export EXPORTED=yes',
+        '  SPACED = padded value  ',
+        'WITH_COMMENT=value # trailing comment',
+        'URL=http://example.com/#fragment',
+        'EMPTY=',
+        '',
+      ].join('\n'),
+    );
+
+    expect(source).toEqual({
+      PLAIN: 'value',
+      EXPORTED: 'yes',
+      SPACED: 'padded value',
+      WITH_COMMENT: 'value',
+      URL: 'http://example.com/#fragment',
+      EMPTY: '',
+    });
+  });
+
+  it('handles single, double, and backtick quoting', () => {
+    const source = parseDotenv(
+      [
+        `SINGLE='  keep # this \\n literally '`,
+        'DOUBLE="line one\\nline two\\t\\"quoted\\"" # comment',
+        'BACKTICK=`it\'s "mixed"`',
+      ].join('\n'),
+    );
+
+    expect(source.SINGLE).toBe('  keep # this \\n literally ');
+    expect(source.DOUBLE).toBe('line one\nline two\t"quoted"');
+    expect(source.BACKTICK).toBe(`it's "mixed"`);
+  });
+
+  it('supports multiline quoted values and CRLF input', () => {
+    const entries = parseDotenvEntries(
+      'FIRST=1\r\nKEY="-----BEGIN-----\r\nabc\r\n-----END-----"\r\nAFTER=2\r\n',
+    );
+
+    expect(entries).toEqual([
+      { key: 'FIRST', value: '1', line: 1 },
+      { key: 'KEY', value: '-----BEGIN-----\nabc\n-----END-----', line: 2 },
+      { key: 'AFTER', value: '2', line: 5 },
+    ]);
+  });
+
+  it('resolves duplicate keys last-wins', () => {
+    expect(parseDotenv('A=1\nA=2')).toEqual({ A: '2' });
+  });
+
+  it('reports file and line for malformed input', () => {
+    const attempt = () => parseDotenv('OK=1\nnot an assignment', { filename: '.env.local' });
+
+    expect(attempt).toThrow(DotenvParseError);
+    expect(attempt).toThrowError(/^\.env\.local:2: expected KEY=VALUE/);
+
+    expect(() => parseDotenv('OK=1\n\nBROKEN="never closed\nMORE=2')).toThrow(
+      expect.objectContaining({
+        line: 3,
+        file: undefined,
+        message: expect.stringMatching(/^<dotenv>:3: unterminated " quoted/),
+      }),
+    );
+
+    expect(() => parseDotenv(`KEY='value' junk`)).toThrowError(/unexpected characters/);
+  });
+});
+
+describe('Env.fromDotenv', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'env-struct-'));
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('parses contents and records the origin line in meta', () => {
+    const env = Env.fromDotenv(
+      { PORT: z.number(), HOST: z.string(), DEBUG: z.boolean().default(false) },
+      'PORT=8080\n# comment\nHOST="localhost"\n',
+    );
+
+    expect(env.data).toEqual({ PORT: 8080, HOST: 'localhost', DEBUG: false });
+    expect(env.meta.PORT).toEqual({ name: 'PORT', val: 8080, raw: '8080', origin: { line: 1 } });
+    expect(env.meta.HOST.origin).toEqual({ line: 3 });
+    expect(env.meta.DEBUG.origin).toBeUndefined();
+  });
+
+  it('reads files from a path and records the file name', () => {
+    const path = join(dir, '.env');
+    writeFileSync(path, 'API_KEY=abc\nexport TIMEOUT=30\n');
+
+    const env = Env.fromDotenv(z.object({ API_KEY: z.string(), TIMEOUT: z.number() }), path, {
+      readFile: readEnvFile,
+    });
+
+    expect(env.data.TIMEOUT).toBe(30);
+    expect(env.meta.TIMEOUT.origin).toEqual({ file: path, line: 2 });
+    expect(env.pick('API_KEY').meta.API_KEY.origin).toEqual({ file: path, line: 1 });
+  });
+
+  it('accepts explicit path and contents inputs', () => {
+    const path = join(dir, 'explicit.env');
+    writeFileSync(path, 'NAME=from-file');
+
+    expect(
+      Env.fromDotenv({ NAME: z.string() }, { path }, { readFile: readEnvFile }).data.NAME,
+    ).toBe('from-file');
+
+    const env = Env.fromDotenv(
+      { NAME: z.string() },
+      { contents: 'NAME=inline', filename: 'x.env' },
+    );
+    expect(env.meta.NAME.origin).toEqual({ file: 'x.env', line: 1 });
+  });
+
+  it('reads paths only through the readFile option', () => {
+    const path = join(dir, 'injected.env');
+    const read: string[] = [];
+    const readFile = (file: string) => {
+      read.push(file);
+      return 'NAME=injected';
+    };
+
+    expect(Env.fromDotenv({ NAME: z.string() }, path, { readFile }).data.NAME).toBe('injected');
+    expect(read).toEqual([path]);
+    expect(() => loadDotenv(path)).toThrowError(
+      `Env: cannot read "${path}" without a file reader; pass readFile (readEnvFile from 'env-struct/node' on Node)`,
+    );
+    expect(loadDotenv('NAME=contents')).toEqual({ NAME: 'contents' });
+  });
+
+  it('still throws ZodError for invalid values', () => {
+    expect(() => Env.fromDotenv({ PORT: z.number() }, 'PORT=abc')).toThrow(ZodError);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod/v4';
+import { e, Env } from '../src';
+
+const schema = z.object({
+  HOST: z.string(),
+  PORT: z.number().default(3000),
+  DEBUG: z.boolean().optional(),
+});
+
+describe('env.verify()', () => {
+  it('reports no drift when the source is unchanged', () => {
+    const env = Env.fromZod(schema, { HOST: 'localhost', PORT: '8080' });
+
+    expect(env.verify()).toEqual({ ok: true, added: [], removed: [], changed: [] });
+  });
+
+  it('reports variables added, removed, and changed after construction', () => {
+    const source: Record<string, string | undefined> = { HOST: 'localhost', PORT: '8080' };
+    const env = Env.fromZod(schema, source);
+
+    source.HOST = 'db.internal';
+    delete source.PORT;
+    source.DEBUG = 'true';
+    source.UNRELATED = 'ignored';
+
+    expect(env.verify()).toEqual({
+      ok: false,
+      added: [{ key: 'DEBUG', variable: 'DEBUG', after: 'true' }],
+      removed: [{ key: 'PORT', variable: 'PORT', before: '8080' }],
+      changed: [{ key: 'HOST', variable: 'HOST', before: 'localhost', after: 'db.internal' }],
+    });
+    expect(env.data.HOST).toBe('localhost');
+  });
+
+  it('follows prefixes and nested variables and masks sensitive values', () => {
+    const source: Record<string, string | undefined> = {
+      APP_DB__USER: 'app',
+      APP_DB__PASSWORD: 'hunter2-hunter2',
+      APP_TOKEN: 'tok_123456',
+    };
+    const env = Env.fromZod(
+      { DB: z.object({ USER: z.string(), PASSWORD: e.secret() }), TOKEN: e.secret() },
+      source,
+      { prefix: 'APP_', nestedDelimiter: '__' },
+    );
+
+    source.APP_DB__PASSWORD = 'swordfish';
+    source.APP_TOKEN = 'tok_654321';
+
+    expect(env.verify().changed).toEqual([
+      {
+        key: 'DB',
+        variable: 'APP_DB__PASSWORD',
+        before: '******** (15 chars)',
+        after: '******** (9 chars)',
+      },
+      {
+        key: 'TOKEN',
+        variable: 'APP_TOKEN',
+        before: '******** (10 chars)',
+        after: '******** (10 chars)',
+      },
+    ]);
+  });
+
+  it('compares aliases per declared key', () => {
+    const source: Record<string, string | undefined> = { PG_URL: 'a' };
+    const env = Env.fromZod({ DATABASE_URL: z.string() }, source, {
+      aliases: { DATABASE_URL: ['PG_URL'] },
+    });
+
+    expect(env.verify().ok).toBe(true);
+    source.DATABASE_URL = 'b';
+    expect(env.verify()).toEqual({
+      ok: false,
+      added: [],
+      removed: [],
+      changed: [{ key: 'DATABASE_URL', variable: 'DATABASE_URL', before: 'a', after: 'b' }],
+    });
+    source.DATABASE_URL = 'a';
+    expect(env.verify().ok).toBe(true);
+  });
+
+  it('compares values as read, before normalization', () => {
+    const source: Record<string, string | undefined> = { HOST: ' localhost ' };
+    const env = Env.fromZod(schema, source, { normalize: { trim: true } });
+
+    expect(env.verify().ok).toBe(true);
+    source.HOST = 'localhost';
+    expect(env.verify().changed).toEqual([
+      { key: 'HOST', variable: 'HOST', before: ' localhost ', after: 'localhost' },
+    ]);
+  });
+});
+
+describe('snapshot option', () => {
+  it('shields derived envs from later source changes', () => {
+    const source: Record<string, string | undefined> = { HOST: 'localhost', PORT: '8080' };
+    const env = Env.fromZod(schema, source, { snapshot: true });
+
+    source.PORT = 'not-a-port';
+
+    expect(env.source).not.toBe(source);
+    expect(Object.isFrozen(env.source)).toBe(true);
+    expect(env.pick('PORT').data.PORT).toBe(8080);
+    expect(env.omit('HOST').meta.PORT.raw).toBe('8080');
+  });
+
+  it('still verifies against the live source, also from derived envs', () => {
+    const source: Record<string, string | undefined> = { HOST: 'localhost', PORT: '8080' };
+    const env = Env.fromZod(schema, source, { snapshot: true });
+
+    source.PORT = '9090';
+
+    expect(env.verify().changed).toEqual([
+      { key: 'PORT', variable: 'PORT', before: '8080', after: '9090' },
+    ]);
+    expect(env.pick('PORT').verify().ok).toBe(false);
+  });
+
+  it('keeps dotenv provenance on the copy', () => {
+    const env = Env.fromDotenv({ HOST: z.string() }, '# hosts\nHOST=localhost\n', {
+      snapshot: true,
+    });
+
+    expect(env.pick('HOST').meta.HOST.origin).toEqual({ line: 2 });
+  });
+});
@@ -0,0 +1,175 @@
+import { inspect } from 'node:util';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod/v4';
+import { Env } from '../src';
+import {
+  createEnvDecryptor,
+  createEnvEncryptionKey,
+  decryptEnvValue,
+  encryptEnvValue,
+} from '../src/node';
+
+import { captureValidationError } from './helpers';
+
+const key = createEnvEncryptionKey();
+const decrypt = createEnvDecryptor(key);
+
+describe('encryptEnvValue', () => {
+  it('round-trips through decryptEnvValue with a fresh IV each time', () => {
+    const first = encryptEnvValue('hunter2', key);
+    const second = encryptEnvValue('hunter2', key);
+
+    expect(first).toMatch(/^enc:v1:[\w-]+:[\w-]+$/);
+    expect(first).not.toBe(second);
+    expect(decryptEnvValue(first, key)).toBe('hunter2');
+    expect(decryptEnvValue(second, key)).toBe('hunter2');
+  });
+
+  it('accepts hex keys and rejects keys of the wrong length', () => {
+    const hexKey = Buffer.from(key, 'base64').toString('hex');
+
+    expect(decryptEnvValue(encryptEnvValue('x', hexKey), key)).toBe('x');
+    expect(() => encryptEnvValue('x', 'c2hvcnQ=')).toThrowError(
+      'Env: encryption key must be 32 bytes (base64 or hex), got 5',
+    );
+  });
+
+  it('explains why a value cannot be decrypted', () => {
+    const value = encryptEnvValue('hunter2', key);
+
+    expect(() => decryptEnvValue(value, createEnvEncryptionKey())).toThrowError(
+      'Could not decrypt value: wrong key or tampered ciphertext',
+    );
+    expect(() => decryptEnvValue('enc:v2:a:b', key)).toThrowError(
+      'Unsupported encrypted value version "v2"',
+    );
+    expect(() => decryptEnvValue('enc:v1:abc', key)).toThrowError(/^Malformed encrypted value/);
+  });
+});
+
+describe('decrypt option', () => {
+  const schema = z.object({ DB_PASSWORD: z.string(), PORT: z.number() });
+
+  it('decrypts values before coercion and treats them as sensitive', () => {
+    const encrypted = encryptEnvValue('hunter2-hunter2', key);
+    const env = Env.fromZod(
+      schema,
+      { DB_PASSWORD: encrypted, PORT: encryptEnvValue('5432', key) },
+      { decrypt },
+    );
+
+    expect(env.data).toEqual({ DB_PASSWORD: 'hunter2-hunter2', PORT: 5432 });
+    expect(env.meta.DB_PASSWORD).toMatchObject({
+      raw: '******** (15 chars)',
+      encrypted,
+      sensitive: true,
+    });
+    expect(env.reveal('DB_PASSWORD').raw).toBe('hunter2-hunter2');
+    expect(JSON.stringify(env)).toBe('{"DB_PASSWORD":"[REDACTED]","PORT":"[REDACTED]"}');
+    expect(inspect(env.meta)).not.toMatch(/hunter2/);
+  });
+
+  it('leaves enc: values untouched without a decryptor', () => {
+    const encrypted = encryptEnvValue('hunter2', key);
+    const env = Env.fromZod({ DB_PASSWORD: z.string() }, { DB_PASSWORD: encrypted });
+
+    expect(env.data.DB_PASSWORD).toBe(encrypted);
+    expect(env.meta.DB_PASSWORD).not.toHaveProperty('sensitive');
+  });
+
+  it('throws for a malformed key before reading values', () => {
+    expect(() => createEnvDecryptor('nope')).toThrowError(/^Env: encryption key must be 32 bytes/);
+  });
+
+  it('accepts any decryptor and reports what it throws', () => {
+    const env = Env.fromZod(
+      { API_KEY: z.string(), REGION: z.string() },
+      { API_KEY: 'enc:rot13:gbx_123', REGION: 'eu' },
+      { decrypt: (value) => value.slice('enc:rot13:'.length).replace('gbx', 'tok') },
+    );
+
+    expect(env.data).toEqual({ API_KEY: 'tok_123', REGION: 'eu' });
+    expect(env.meta.API_KEY.sensitive).toBe(true);
+
+    const { report } = captureValidationError(() =>
+      Env.fromZod(
+        { API_KEY: z.string() },
+        { API_KEY: 'enc:kms:abc' },
+        {
+          decrypt: () => {
+            throw new Error('KMS key not found');
+          },
+        },
+      ),
+    );
+    expect(report.invalid[0].messages).toEqual(['KMS key not found']);
+  });
+
+  it('reports undecryptable values as issues on their variable', () => {
+    const encrypted = encryptEnvValue('hunter2', key);
+    const [prefix, version, iv, sealed] = encrypted.split(':');
+    const tampered = [
+      prefix,
+      version,
+      iv,
+      `${sealed[0] === 'A' ? 'B' : 'A'}${sealed.slice(1)}`,
+    ].join(':');
+    const { report } = captureValidationError(() =>
+      Env.fromZod(schema, { DB_PASSWORD: tampered, PORT: 'enc:v1:oops' }, { decrypt }),
+    );
+
+    expect(report.invalid.map(({ variable, messages }) => ({ variable, messages }))).toEqual([
+      {
+        variable: 'DB_PASSWORD',
+        messages: ['Could not decrypt value: wrong key or tampered ciphertext'],
+      },
+      {
+        variable: 'PORT',
+        messages: ['Malformed encrypted value; expected "enc:v1:<iv>:<ciphertext>"'],
+      },
+    ]);
+    expect(report.invalid[0].received).toMatch(/^"\*+" \(\d+ chars\)$/);
+  });
+
+  it('keeps decrypted values out of validation messages', () => {
+    const { report } = captureValidationError(() =>
+      Env.fromZod({ PORT: z.number() }, { PORT: encryptEnvValue('not-a-port', key) }, { decrypt }),
+    );
+
+    expect(JSON.stringify(report)).not.toMatch(/not-a-port/);
+    expect(report.invalid[0].received).toBe('"********" (10 chars)');
+  });
+
+  it('decrypts delimited nested variables', () => {
+    const env = Env.fromZod(
+      { DB: z.object({ USER: z.string(), PASSWORD: z.string() }) },
+      { DB__USER: 'app', DB__PASSWORD: encryptEnvValue('hunter2', key) },
+      { nestedDelimiter: '__', decrypt },
+    );
+
+    expect(env.data.DB).toEqual({ USER: 'app', PASSWORD: 'hunter2' });
+    expect(env.meta.DB.sensitive).toBe(true);
+    expect(env.meta.DB.nested?.DB__PASSWORD).toBe('******* (7 chars)');
+    expect(JSON.stringify(env.data)).toBe('{"DB":"[REDACTED]"}');
+  });
+
+  it('decrypts values from dotenv files and async resolvers', async () => {
+    const env = Env.fromDotenv(
+      { API_KEY: z.string() },
+      `API_KEY=${encryptEnvValue('tok_123', key)}\n`,
+      { decrypt },
+    );
+    expect(env.data.API_KEY).toBe('tok_123');
+
+    const resolved = await Env.fromZodAsync(
+      { API_KEY: z.string() },
+      { API_KEY: 'vault://api-key' },
+      {
+        decrypt,
+        resolvers: { vault: () => encryptEnvValue('tok_456', key) },
+      },
+    );
+    expect(resolved.data.API_KEY).toBe('tok_456');
+    expect(resolved.meta.API_KEY.sensitive).toBe(true);
+  });
+});
@@ -1,6 +1,6 @@
-import { describe, expect, expectTypeOf, it } from 'vitest';
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
 import { z, ZodError, ZodObject } from 'zod/v4';
-import { Env } from '../src';
+import { Env, EnvValidationError, type EnvVar } from '../src';
 
 describe('Env', () => {
   it('parses typed values, and exposes rich metadata', () => {
@@ -361,7 +361,8 @@ describe('Env', () => {
     });
 
     expect(() => Env.fromZod(schema, { TAGS: '[invalid json' })).toThrow(ZodError);
-    expect(() => Env.fromZod(schema, { TAGS: 'not-an-array' })).toThrow(ZodError);
+    // Non-JSON values are read as delimited lists.
+    expect(Env.fromZod(schema, { TAGS: 'not-an-array' }).data.TAGS).toEqual(['not-an-array']);
   });
 
   it('throws ZodError when array elements do not match schema', () => {
@@ -432,6 +433,301 @@ describe('Env', () => {
     ).toThrow(ZodError);
   });
 
+  describe('prefix option', () => {
+    it('reads prefixed variables while exposing unprefixed names', () => {
+      const env = Env.fromZod(
+        { PORT: z.number(), DB_URL: z.string(), OPTIONAL: z.string().optional() },
+        { BILLING_PORT: '8080', BILLING_DB_URL: 'postgres://db', PORT: '1' },
+        { prefix: 'BILLING_' },
+      );
+
+      expect(env.data).toEqual({ PORT: 8080, DB_URL: 'postgres://db' });
+      expect(env.camel).toEqual({ port: 8080, dbUrl: 'postgres://db' });
+      expect(env.keys).toEqual({ PORT: 'PORT', DB_URL: 'DB_URL', OPTIONAL: 'OPTIONAL' });
+      expect(env.meta.PORT).toEqual({
+        name: 'PORT',
+        variable: 'BILLING_PORT',
+        val: 8080,
+        raw: '8080',
+      });
+      expect(env.meta.OPTIONAL.variable).toBe('BILLING_OPTIONAL');
+    });
+
+    it('reports validation issues against the prefixed variable', () => {
+      const attempt = () =>
+        Env.fromZod({ PORT: z.number() }, { BILLING_PORT: 'abc' }, { prefix: 'BILLING_' });
+
+      expect(attempt).toThrow(ZodError);
+      expect(attempt).toThrow(
+        expect.objectContaining({ issues: [expect.objectContaining({ path: ['BILLING_PORT'] })] }),
+      );
+    });
+
+    it('keeps the prefix for derived envs', () => {
+      const env = Env.fromZod(
+        { PORT: z.number(), HOST: z.string() },
+        { APP_PORT: '3000', APP_HOST: 'localhost' },
+        { prefix: 'APP_' },
+      );
+
+      const subset = env.pick('HOST');
+      expect(subset.data.HOST).toBe('localhost');
+      expect(subset.meta.HOST.variable).toBe('APP_HOST');
+    });
+  });
+
+  describe('nestedDelimiter option', () => {
+    const schema = z.object({
+      DB: z.object({
+        HOST: z.string(),
+        PORT: z.number(),
+        SSL: z.boolean().default(false),
+        POOL: z.object({ MAX: z.number(), IDLE: z.number().optional() }),
+      }),
+      NAME: z.string().optional(),
+    });
+
+    it('builds nested objects from delimited variables with leaf coercion', () => {
+      const env = Env.fromZod(
+        schema,
+        { DB__HOST: 'db.internal', DB__PORT: ' 5432 ', DB__SSL: 'yes', DB__POOL__MAX: '10' },
+        { nestedDelimiter: '__' },
+      );
+
+      expect(env.data.DB).toEqual({
+        HOST: 'db.internal',
+        PORT: 5432,
+        SSL: true,
+        POOL: { MAX: 10 },
+      });
+      expect(env.meta.DB.raw).toBeUndefined();
+      expect(env.meta.DB.nested).toEqual({
+        DB__HOST: 'db.internal',
+        DB__PORT: ' 5432 ',
+        DB__SSL: 'yes',
+        DB__POOL__MAX: '10',
+      });
+      expect(env.meta.NAME.nested).toBeUndefined();
+    });
+
+    it('lets delimited variables override JSON values, deepest first', () => {
+      const env = Env.fromZod(
+        schema,
+        {
+          DB: '{"HOST":"json-host","PORT":1,"POOL":{"MAX":1,"IDLE":5}}',
+          DB__PORT: '2',
+          DB__POOL: '{"MAX":3}',
+          DB__POOL__MAX: '4',
+        },
+        { nestedDelimiter: '__' },
+      );
+
+      expect(env.data.DB).toEqual({ HOST: 'json-host', PORT: 2, SSL: false, POOL: { MAX: 4 } });
+    });
+
+    it('reports issues against the flattened variable name', () => {
+      const attempt = () =>
+        Env.fromZod(
+          schema,
+          { DB__HOST: 'db', DB__PORT: '5432', DB__POOL__MAX: 'lots' },
+          { nestedDelimiter: '__' },
+        );
+
+      expect(attempt).toThrow(
+        expect.objectContaining({
+          issues: [expect.objectContaining({ path: ['DB__POOL__MAX'] })],
+        }),
+      );
+    });
+
+    it('combines with prefix and ignores delimited keys unless enabled', () => {
+      const source = { APP_DB__HOST: 'h', APP_DB__PORT: '1', APP_DB__POOL__MAX: '2' };
+
+      const env = Env.fromZod(schema, source, { prefix: 'APP_', nestedDelimiter: '__' });
+      expect(env.data.DB.POOL.MAX).toBe(2);
+      expect(env.meta.DB.variable).toBe('APP_DB');
+
+      expect(() => Env.fromZod(schema, source, { prefix: 'APP_' })).toThrow(ZodError);
+    });
+  });
+
+  describe('aliases option', () => {
+    const schema = { DATABASE_URL: z.string().url(), PORT: z.number().default(3000) };
+
+    it('falls back to aliases in order and reports deprecations', () => {
+      const onDeprecation = vi.fn();
+      const env = Env.fromZod(
+        schema,
+        { LEGACY_DB: 'postgres://legacy', PG_URL: 'postgres://pg' },
+        { aliases: { DATABASE_URL: ['PG_URL', 'LEGACY_DB'] }, onDeprecation },
+      );
+
+      expect(env.data.DATABASE_URL).toBe('postgres://pg');
+      expect(env.meta.DATABASE_URL).toEqual({
+        name: 'DATABASE_URL',
+        variable: 'PG_URL',
+        val: 'postgres://pg',
+        raw: 'postgres://pg',
+      });
+      expect(onDeprecation).toHaveBeenCalledTimes(1);
+      expect(onDeprecation).toHaveBeenCalledWith({
+        key: 'DATABASE_URL',
+        variable: 'DATABASE_URL',
+        alias: 'PG_URL',
+      });
+    });
+
+    it('reports each deprecation once per factory call', async () => {
+      const onDeprecation = vi.fn();
+      const options = { aliases: { DATABASE_URL: ['PG_URL'] }, onDeprecation };
+      const env = Env.fromZod(schema, { PG_URL: 'postgres://pg' }, options);
+
+      env.pick('DATABASE_URL');
+      env.omit('PORT');
+      expect(onDeprecation).toHaveBeenCalledTimes(1);
+
+      onDeprecation.mockClear();
+      await Env.fromZodAsync(schema, { PG_URL: 'postgres://pg' }, options);
+      expect(onDeprecation).toHaveBeenCalledTimes(1);
+    });
+
+    it('prefers the canonical name without firing deprecations', () => {
+      const onDeprecation = vi.fn();
+      const env = Env.fromZod(
+        schema,
+        { DATABASE_URL: 'postgres://new', PG_URL: 'postgres://old' },
+        { aliases: { DATABASE_URL: ['PG_URL'] }, onDeprecation },
+      );
+
+      expect(env.data.DATABASE_URL).toBe('postgres://new');
+      expect(env.meta.DATABASE_URL.variable).toBeUndefined();
+      expect(onDeprecation).not.toHaveBeenCalled();
+    });
+
+    it('can reject conflicting canonical and alias values', () => {
+      const options = { aliases: { DATABASE_URL: ['PG_URL'] }, aliasConflicts: 'error' } as const;
+
+      expect(() =>
+        Env.fromZod(schema, { DATABASE_URL: 'postgres://a', PG_URL: 'postgres://b' }, options),
+      ).toThrowError(
+        'Env: both DATABASE_URL and deprecated PG_URL are set with different values; remove PG_URL',
+      );
+      expect(
+        Env.fromZod(schema, { DATABASE_URL: 'postgres://a', PG_URL: 'postgres://a' }, options).data
+          .DATABASE_URL,
+      ).toBe('postgres://a');
+    });
+
+    it('reports validation issues against the alias that was read', () => {
+      expect(() =>
+        Env.fromZod(schema, { PG_URL: 'not a url' }, { aliases: { DATABASE_URL: ['PG_URL'] } }),
+      ).toThrow(
+        expect.objectContaining({ issues: [expect.objectContaining({ path: ['PG_URL'] })] }),
+      );
+    });
+  });
+
+  describe('safe factories', () => {
+    const schema = z.object({
+      PORT: z.number().int(),
+      HOST: z.string(),
+      DEBUG: z.boolean().default(false),
+    });
+
+    it('returns the env when validation succeeds', () => {
+      const result = Env.safeFromZod(schema, { PORT: '8080', HOST: 'localhost' });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.env.data).toEqual({ PORT: 8080, HOST: 'localhost', DEBUG: false });
+      }
+    });
+
+    it('returns the error and meta for the keys that parsed', () => {
+      const result = Env.safeFromZod(schema, { PORT: 'eighty', DEBUG: 'true' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(EnvValidationError);
+        expect(result.error.report.invalid.map((failure) => failure.variable)).toEqual(['PORT']);
+        expect(result.error.report.missing.map((failure) => failure.variable)).toEqual(['HOST']);
+        expect(Object.keys(result.partial)).toEqual(['DEBUG']);
+        expect(result.partial.DEBUG).toEqual({ name: 'DEBUG', val: true, raw: 'true' });
+        expectTypeOf(result.partial.PORT).toEqualTypeOf<EnvVar<number, 'PORT'> | undefined>();
+      }
+    });
+
+    it('keeps keys that only fail cross-field checks in partial', () => {
+      const refined = schema.refine((data) => data.PORT !== 80 || data.HOST !== 'localhost', {
+        path: ['PORT'],
+        message: 'port 80 needs a public host',
+      });
+      const result = Env.safeFromZod(refined, { PORT: '80', HOST: 'localhost' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.report.refinements).toEqual([
+          { path: ['PORT'], message: 'port 80 needs a public host' },
+        ]);
+        expect(Object.keys(result.partial)).toEqual(['PORT', 'HOST', 'DEBUG']);
+      }
+    });
+
+    it('records variable names and provenance on partial meta', () => {
+      const result = Env.safeFromZod(
+        { PORT: z.number(), HOST: z.string() },
+        { APP_PORT: '80' },
+        { prefix: 'APP_' },
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.partial).toEqual({
+          PORT: { name: 'PORT', variable: 'APP_PORT', val: 80, raw: '80' },
+        });
+      }
+    });
+
+    it('does not swallow errors unrelated to validation', () => {
+      expect(() =>
+        Env.safeFromZod({ URL: z.string() }, { URL: '${HOST:?}' }, { expand: true }),
+      ).toThrow('Env: HOST (referenced by URL) is not set');
+    });
+
+    it('supports fromNames and fromValues', () => {
+      const fromNames = Env.safeFromNames(['A', 'B'], { A: '1' });
+      const fromValues = Env.safeFromValues({ A: '1' });
+
+      expect(fromNames.success && fromNames.env.data).toEqual({ A: '1', B: undefined });
+      expect(fromValues.success && fromValues.env.data).toEqual({ A: '1' });
+    });
+
+    it('supports pick and omit on a derived source', () => {
+      const env = Env.fromZod({ PORT: z.number(), HOST: z.string() }, { PORT: '80', HOST: 'a' });
+
+      const picked = env.safePick('PORT');
+      expect(picked.success && picked.env.data).toEqual({ PORT: 80 });
+
+      const omitted = env.safeOmit('HOST');
+      expect(omitted.success && omitted.env.data).toEqual({ PORT: 80 });
+      expect(() => env.safeOmit('NOPE' as never)).toThrow('undeclared key "NOPE"');
+    });
+
+    it('reports failures from pick', () => {
+      const source: Record<string, string | undefined> = { PORT: '80', HOST: 'localhost' };
+      const env = Env.fromZod(schema, source);
+      source.PORT = 'oops';
+
+      const picked = env.safePick('PORT', 'HOST');
+
+      expect(picked.success).toBe(false);
+      if (!picked.success) {
+        expect(picked.error.report.invalid.map((failure) => failure.key)).toEqual(['PORT']);
+        expect(Object.keys(picked.partial)).toEqual(['HOST']);
+      }
+    });
+  });
+
   describe('factory helpers', () => {
     it('creates an Env via fromSchema', () => {
       const env = Env.fromSchema(
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { z, ZodError } from 'zod/v4';
+import { Env, EnvValidationError } from '../src';
+import { captureValidationError as captureError } from './helpers';
+
+describe('EnvValidationError', () => {
+  const schema = z
+    .object({
+      DATABASE_URL: z.string().url(),
+      PORT: z.number().int(),
+      MODE: z.enum(['dev', 'prod']),
+      PASSWORD: z.string(),
+      CONFIRM: z.string(),
+      OPTIONAL: z.string().optional(),
+    })
+    .superRefine((data, ctx) => {
+      if (data.PASSWORD !== data.CONFIRM) {
+        ctx.addIssue({ code: 'custom', path: ['CONFIRM'], message: 'must match PASSWORD' });
+      }
+    });
+
+  it('remains a ZodError with the original issues', () => {
+    const error = captureError(() => Env.fromZod(schema, { PORT: 'abc' }));
+
+    expect(error).toBeInstanceOf(EnvValidationError);
+    expect(error).toBeInstanceOf(ZodError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('EnvValidationError');
+    expect(error.stack).toMatch(/^EnvValidationError: Env validation failed/);
+    expect(error.zodError).toBeInstanceOf(ZodError);
+    expect(error.issues).toEqual(error.zodError.issues);
+    expect(error.issues.map((issue) => issue.path)).toEqual([
+      ['DATABASE_URL'],
+      ['PORT'],
+      ['MODE'],
+      ['PASSWORD'],
+      ['CONFIRM'],
+    ]);
+    expect(error.flatten().fieldErrors.PORT).toHaveLength(1);
+  });
+
+  it('groups failures into missing, invalid, and cross-field sections', () => {
+    const error = captureError(() =>
+      Env.fromZod(schema, {
+        PORT: '80.5',
+        MODE: 'staging',
+        PASSWORD: 'hunter2',
+        CONFIRM: 'hunter3',
+      }),
+    );
+
+    expect(error.report).toEqual({
+      missing: [
+        {
+          variable: 'DATABASE_URL',
+          key: 'DATABASE_URL',
+          expected: 'url',
+          messages: [expect.any(String)],
+        },
+      ],
+      invalid: [
+        {
+          variable: 'PORT',
+          key: 'PORT',
+          expected: 'int',
+          received: '"8***" (4 chars)',
+          messages: [expect.any(String)],
+        },
+        {
+          variable: 'MODE',
+          key: 'MODE',
+          expected: 'one of "dev" | "prod"',
+          received: '"s******" (7 chars)',
+          messages: [expect.stringContaining('expected one of')],
+        },
+      ],
+      refinements: [],
+    });
+  });
+
+  it('lists only the values Zod accepts for numeric native enums', () => {
+    enum Priority {
+      Low = 1,
+      High = 2,
+    }
+    const error = captureError(() =>
+      Env.fromZod({ PRIORITY: z.nativeEnum(Priority) }, { PRIORITY: 'Low' }),
+    );
+
+    expect(error.report.invalid[0].expected).toBe('one of 1 | 2');
+  });
+
+  it('lists object-level refinements separately', () => {
+    const error = captureError(() =>
+      Env.fromZod(schema, {
+        DATABASE_URL: 'https://db',
+        PORT: '80',
+        MODE: 'dev',
+        PASSWORD: 'a',
+        CONFIRM: 'b',
+      }),
+    );
+
+    expect(error.report).toEqual({
+      missing: [],
+      invalid: [],
+      refinements: [{ path: ['CONFIRM'], message: 'must match PASSWORD' }],
+    });
+  });
+
+  it('never echoes raw values in the message', () => {
+    const error = captureError(() =>
+      Env.fromZod({ TOKEN: z.string().min(64) }, { TOKEN: 'sk-live-abcdefghijklmnop' }),
+    );
+
+    expect(error.message).not.toContain('abcdefghijklmnop');
+    expect(error.message).toBe(
+      [
+        'Env validation failed (1 invalid):',
+        '  Invalid:',
+        '    - TOKEN: expected string, received "sk-l********" (24 chars)',
+        `        ${error.issues[0].message}`,
+      ].join('\n'),
+    );
+  });
+
+  it('formats a terminal summary', () => {
+    const error = captureError(() =>
+      Env.fromZod(schema, {
+        PORT: 'x',
+        MODE: 'dev',
+        PASSWORD: 'a',
+        CONFIRM: '',
+      }),
+    );
+
+    expect(error.message.split('\n')).toEqual([
+      'Env validation failed (1 missing, 1 invalid):',
+      '  Missing:',
+      '    - DATABASE_URL (expected url)',
+      '  Invalid:',
+      '    - PORT: expected int, received "*" (1 chars)',
+      `        ${error.issues[1].message}`,
+    ]);
+  });
+
+  it('serializes to structured JSON for log pipelines', () => {
+    const error = captureError(() => Env.fromZod({ PORT: z.number() }, {}));
+
+    expect(JSON.parse(JSON.stringify(error))).toEqual({
+      name: 'EnvValidationError',
+      message: 'Env validation failed (1 missing)',
+      missing: [
+        { variable: 'PORT', key: 'PORT', expected: 'number', messages: [expect.any(String)] },
+      ],
+      invalid: [],
+      refinements: [],
+    });
+  });
+
+  it('reports the real variable names for prefixed and nested keys', () => {
+    const error = captureError(() =>
+      Env.fromZod(
+        { DB: z.object({ PORT: z.number() }), HOST: z.string() },
+        { APP_DB__PORT: 'nope' },
+        { prefix: 'APP_', nestedDelimiter: '__' },
+      ),
+    );
+
+    expect(error.report.invalid.map((failure) => failure.variable)).toEqual(['APP_DB__PORT']);
+    expect(error.report.invalid[0].key).toBe('DB');
+    expect(error.report.missing.map((failure) => failure.variable)).toEqual(['APP_HOST']);
+  });
+
+  it('is thrown by async factories too', async () => {
+    await expect(Env.fromZodAsync({ PORT: z.number() }, { PORT: 'x' })).rejects.toBeInstanceOf(
+      EnvValidationError,
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod/v4';
+import { e, Env, generateEnvExample, parseDotenv } from '../src';
+
+describe('generateEnvExample', () => {
+  it('documents type, requirement, default, and description for each key in order', () => {
+    const output = generateEnvExample({
+      PORT: e.port().default(3000).describe('HTTP port to listen on'),
+      LOG_LEVEL: z.enum(['debug', 'info', 'warn']).default('info'),
+      DATABASE_URL: z.url().describe('Primary database\nRead/write'),
+      DEBUG: z.boolean().optional(),
+    });
+
+    expect(output).toBe(
+      [
+        '# HTTP port to listen on',
+        '# port, optional, default: 3000',
+        'PORT=3000',
+        '',
+        '# one of "debug" | "info" | "warn", optional, default: info',
+        'LOG_LEVEL=info',
+        '',
+        '# Primary database',
+        '# Read/write',
+        '# url, required',
+        'DATABASE_URL=',
+        '',
+        '# boolean, optional',
+        'DEBUG=',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('uses example metadata for values without a default', () => {
+    expect(generateEnvExample({ TIMEOUT: e.duration() })).toContain('\nTIMEOUT=30s\n');
+    expect(
+      generateEnvExample({ REGION: z.string().meta({ example: 'eu west' }) }).split('\n'),
+    ).toContain("REGION='eu west'");
+  });
+
+  it('lists only the accepted values of numeric native enums', () => {
+    enum Priority {
+      Low = 1,
+      High = 2,
+    }
+
+    expect(generateEnvExample({ PRIORITY: z.nativeEnum(Priority) })).toBe(
+      '# one of 1 | 2, required\nPRIORITY=\n',
+    );
+  });
+
+  it('leaves secrets blank', () => {
+    const output = generateEnvExample({
+      SESSION_SECRET: z.string().default('dev-only'),
+      STRIPE_API_KEY: z.string(),
+      SIGNING: e.secret().meta({ example: 'abc' }),
+      CACHE_TTL: z.number().default(60),
+    });
+
+    expect(output).not.toMatch(/dev-only|abc/);
+    expect(output).toContain('# string, optional\nSESSION_SECRET=\n');
+    expect(output).toContain('\nSTRIPE_API_KEY=\n');
+    expect(output).toContain('\nSIGNING=\n');
+    expect(output).toContain('\nCACHE_TTL=60\n');
+  });
+
+  it('accepts env.schema, wrapped schemas, and a prefix', () => {
+    const schema = z.object({ HOST: z.string().default('localhost') });
+    const env = Env.fromZod(schema, {});
+
+    expect(generateEnvExample(env.schema)).toBe(generateEnvExample(schema));
+    expect(generateEnvExample(schema.transform((value) => value))).toBe(generateEnvExample(schema));
+    expect(generateEnvExample(schema, { prefix: 'APP_' })).toContain('\nAPP_HOST=localhost\n');
+    expect(() => generateEnvExample(z.string())).toThrowError(/must ultimately resolve/);
+  });
+
+  it('quotes defaults so parseDotenv reads them back', () => {
+    const output = generateEnvExample({
+      GREETING: z.string().default("it's # fine\nreally"),
+      ORIGINS: z.array(z.string()).default(['https://a.com', 'https://b.com']),
+      LIMITS: z.object({ max: z.number() }).default({ max: 5 }),
+      STARTS: z.coerce.date().default(new Date('2024-01-01T00:00:00Z')),
+    });
+
+    expect(parseDotenv(output)).toEqual({
+      GREETING: "it's # fine\nreally",
+      ORIGINS: '["https://a.com","https://b.com"]',
+      LIMITS: '{"max":5}',
+      STARTS: '2024-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('treats fields with async checks as required', () => {
+    const output = generateEnvExample({
+      TOKEN_URL: z
+        .string()
+        .optional()
+        .refine(async () => true),
+    });
+
+    expect(output).toContain('required');
+  });
+});
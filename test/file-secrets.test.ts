@@ -0,0 +1,105 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { z } from 'zod/v4';
+import { Env, EnvValidationError } from '../src';
+import { readEnvFile } from '../src/node';
+
+describe('fileSecrets', () => {
+  const options = { fileSecrets: true, readFile: readEnvFile };
+  const dir = mkdtempSync(join(tmpdir(), 'env-struct-secrets-'));
+  const secretPath = join(dir, 'db_password');
+  writeFileSync(secretPath, '  hunter2\n');
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('ignores *_FILE siblings unless enabled', () => {
+    const env = Env.fromZod(
+      { DB_PASSWORD: z.string().optional() },
+      { DB_PASSWORD_FILE: secretPath },
+    );
+
+    expect(env.data.DB_PASSWORD).toBeUndefined();
+  });
+
+  it('reads and trims the referenced file when the key is absent', () => {
+    const env = Env.fromZod(
+      { DB_PASSWORD: z.string(), DB_USER: z.string() },
+      { DB_PASSWORD_FILE: secretPath, DB_USER: 'app' },
+      options,
+    );
+
+    expect(env.data.DB_PASSWORD).toBe('hunter2');
+    expect(env.meta.DB_PASSWORD).toEqual({
+      name: 'DB_PASSWORD',
+      val: 'hunter2',
+      raw: 'hunter2',
+      origin: { file: secretPath, fileVar: 'DB_PASSWORD_FILE' },
+    });
+    expect(env.meta.DB_USER.origin).toBeUndefined();
+    expect(env.pick('DB_PASSWORD').data.DB_PASSWORD).toBe('hunter2');
+  });
+
+  it('throws when both the key and its *_FILE sibling are set', () => {
+    expect(() =>
+      Env.fromZod(
+        { DB_PASSWORD: z.string() },
+        { DB_PASSWORD: 'inline', DB_PASSWORD_FILE: secretPath },
+        options,
+      ),
+    ).toThrowError('Env: both DB_PASSWORD and DB_PASSWORD_FILE are set; provide only one');
+  });
+
+  it('throws a clear error for missing files', () => {
+    const missing = join(dir, 'missing');
+
+    expect(() =>
+      Env.fromZod({ API_KEY: z.string() }, { API_KEY_FILE: missing }, options),
+    ).toThrowError(
+      `Env: API_KEY_FILE points to "${missing}" for API_KEY, but the file does not exist`,
+    );
+    expect(() => Env.fromZod({ API_KEY: z.string() }, { API_KEY_FILE: dir }, options)).toThrowError(
+      `Env: API_KEY_FILE points to "${dir}" for API_KEY, but the file could not be read (EISDIR)`,
+    );
+  });
+
+  it('reads files only through the readFile option', () => {
+    const files: Record<string, string> = { '/run/secrets/api_key': 'tok_123\n' };
+    const env = Env.fromZod(
+      { API_KEY: z.string() },
+      { API_KEY_FILE: '/run/secrets/api_key' },
+      { fileSecrets: true, readFile: (path) => files[path] },
+    );
+
+    expect(env.data.API_KEY).toBe('tok_123');
+    expect(() =>
+      Env.fromZod({ API_KEY: z.string() }, { API_KEY_FILE: secretPath }, { fileSecrets: true }),
+    ).toThrowError(
+      `Env: API_KEY_FILE points to "${secretPath}" for API_KEY, but no file reader was given; pass readFile (readEnvFile from 'env-struct/node' on Node)`,
+    );
+  });
+
+  it('never echoes file contents in validation errors', () => {
+    const attempt = () =>
+      Env.fromZod({ DB_PASSWORD: z.string().min(32) }, { DB_PASSWORD_FILE: secretPath }, options);
+
+    expect(attempt).toThrow();
+    expect(attempt).not.toThrowError(/hunter2/);
+  });
+
+  it('masks previews of file values whose schema is not marked sensitive', () => {
+    const attempt = () =>
+      Env.fromZod(
+        { DB_PASSWORD: z.string().min(20) },
+        { DB_PASSWORD_FILE: '/run/secrets/db_password' },
+        { fileSecrets: true, readFile: () => 'hunter22\n' },
+      );
+
+    expect(attempt).toThrow(EnvValidationError);
+    expect(attempt).toThrowError('received "********" (8 chars)');
+    expect(attempt).not.toThrowError(/"hu/);
+  });
+});
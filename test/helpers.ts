@@ -0,0 +1,14 @@
+import { EnvValidationError } from '../src';
+
+/** Run `build` and return the `EnvValidationError` it throws; any other outcome fails the test. */
+export function captureValidationError(build: () => unknown): EnvValidationError {
+  try {
+    build();
+  } catch (error) {
+    if (error instanceof EnvValidationError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('expected an EnvValidationError');
+}
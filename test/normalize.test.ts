@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod/v4';
+import { Env } from '../src';
+import { captureValidationError } from './helpers';
+
+describe('normalize', () => {
+  it('leaves values untouched by default', () => {
+    const env = Env.fromZod({ NAME: z.string() }, { NAME: ' "x"\r\n' });
+
+    expect(env.data.NAME).toBe(' "x"\r\n');
+    expect(env.meta.NAME).not.toHaveProperty('normalized');
+  });
+
+  it('trims values and keeps the untouched raw in meta', () => {
+    const env = Env.fromZod(
+      { NAME: z.string(), PORT: z.number() },
+      { NAME: '  api  ', PORT: ' 8080 ' },
+      { normalize: { trim: true } },
+    );
+
+    expect(env.data.NAME).toBe('api');
+    expect(env.meta.NAME.raw).toBe('  api  ');
+    expect(env.meta.NAME.normalized).toBe('api');
+    expect(env.data.PORT).toBe(8080);
+  });
+
+  it('treats blank values as unset so defaults and optional apply', () => {
+    const schema = z.object({
+      TIMEOUT: z.number().default(30),
+      LABEL: z.string().optional(),
+      REQUIRED: z.string(),
+    });
+    const options = { normalize: { trim: true, emptyAsUndefined: true } };
+
+    const env = Env.fromZod(schema, { TIMEOUT: '', LABEL: '   ', REQUIRED: 'x' }, options);
+    expect(env.data.TIMEOUT).toBe(30);
+    expect(env.data.LABEL).toBeUndefined();
+    expect(env.meta.LABEL.raw).toBe('   ');
+    expect(env.meta.LABEL).toHaveProperty('normalized', undefined);
+    expect(env.warnings.map((warning) => warning.code)).toEqual(['DEFAULT_USED']);
+
+    const error = captureValidationError(() => Env.fromZod(schema, { REQUIRED: '' }, options));
+    expect(error.report.missing.map((entry) => entry.variable)).toEqual(['REQUIRED']);
+  });
+
+  it('strips one pair of matching quotes and normalizes CRLF', () => {
+    const env = Env.fromZod(
+      { A: z.string(), B: z.string(), C: z.string(), CERT: z.string() },
+      { A: '"quoted"', B: `'single'`, C: `"mismatched'`, CERT: 'line1\r\nline2\r' },
+      { normalize: { stripQuotes: true, crlf: true } },
+    );
+
+    expect(env.data).toEqual({
+      A: 'quoted',
+      B: 'single',
+      C: `"mismatched'`,
+      CERT: 'line1\nline2\n',
+    });
+  });
+
+  it('merges per-key policies over the global one', () => {
+    const env = Env.fromZod(
+      { NAME: z.string(), PADDED: z.string(), QUOTED: z.string() },
+      { NAME: ' a ', PADDED: ' b ', QUOTED: ' "c" ' },
+      {
+        normalize: { trim: true },
+        keyNormalize: { PADDED: { trim: false }, QUOTED: { stripQuotes: true } },
+      },
+    );
+
+    expect(env.data).toEqual({ NAME: 'a', PADDED: ' b ', QUOTED: 'c' });
+  });
+
+  it('normalizes delimited nested variables', () => {
+    const env = Env.fromZod(
+      { DB: z.object({ HOST: z.string(), PORT: z.number().default(5432) }) },
+      { DB__HOST: ' db ', DB__PORT: '' },
+      { nestedDelimiter: '__', normalize: { trim: true, emptyAsUndefined: true } },
+    );
+
+    expect(env.data.DB).toEqual({ HOST: 'db', PORT: 5432 });
+    expect(env.meta.DB.nested).toEqual({ DB__HOST: ' db ' });
+  });
+
+  it('applies to pick() and values from async resolvers', async () => {
+    const env = await Env.fromZodAsync(
+      { TOKEN: z.string(), NAME: z.string() },
+      { TOKEN: 'vault://token', NAME: ' n ' },
+      { resolvers: { vault: async () => '  secret\n' }, normalize: { trim: true } },
+    );
+
+    expect(env.data).toEqual({ TOKEN: 'secret', NAME: 'n' });
+    expect(env.meta.TOKEN.raw).toBe('  secret\n');
+    expect(env.pick('TOKEN').data.TOKEN).toBe('secret');
+  });
+});
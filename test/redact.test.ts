@@ -0,0 +1,135 @@
+import { inspect } from 'node:util';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod/v4';
+import { e, Env } from '../src';
+import { captureValidationError } from './helpers';
+
+const schema = z.object({
+  HOST: z.string(),
+  PASSWORD: e.secret(),
+  DATABASE_URL: e.sensitive(z.url()),
+  API_TOKEN: z.string().meta({ sensitive: true }).optional(),
+});
+const source = {
+  HOST: 'db.internal',
+  PASSWORD: 'hunter2-hunter2',
+  DATABASE_URL: 'postgres://app:pw@db/app',
+  API_TOKEN: 'tok_123456',
+};
+
+describe('sensitive fields', () => {
+  it('masks raw values in meta and keeps parsed values readable', () => {
+    const env = Env.fromZod(schema, source);
+
+    expect(env.data.PASSWORD).toBe('hunter2-hunter2');
+    expect(env.meta.PASSWORD).toMatchObject({
+      raw: '******** (15 chars)',
+      sensitive: true,
+    });
+    expect(env.meta.HOST.raw).toBe('db.internal');
+    expect(env.meta.HOST).not.toHaveProperty('sensitive');
+  });
+
+  it('reveals the real metadata on request', () => {
+    const env = Env.fromZod(schema, source);
+
+    expect(env.reveal('PASSWORD')).toMatchObject({
+      raw: 'hunter2-hunter2',
+      val: 'hunter2-hunter2',
+    });
+    expect(env.reveal('HOST')).toBe(env.meta.HOST);
+    expect(() => env.reveal('NOPE' as 'HOST')).toThrowError(/not declared/);
+  });
+
+  it('masks values in JSON.stringify', () => {
+    const env = Env.fromZod(schema, source);
+
+    expect(JSON.parse(JSON.stringify(env.data))).toEqual({
+      HOST: 'db.internal',
+      PASSWORD: '[REDACTED]',
+      DATABASE_URL: '[REDACTED]',
+      API_TOKEN: '[REDACTED]',
+    });
+    expect(JSON.parse(JSON.stringify(env.camel))).toMatchObject({ password: '[REDACTED]' });
+    expect(JSON.stringify(env.meta)).not.toMatch(/hunter2|tok_123456|app:pw/);
+  });
+
+  it('masks values in util.inspect and console.log output', () => {
+    const env = Env.fromZod(schema, source);
+
+    for (const printed of [
+      inspect(env),
+      inspect(env.meta),
+      inspect(env.data),
+      inspect(env.camel),
+    ]) {
+      expect(printed).not.toMatch(/hunter2|tok_123456|app:pw/);
+    }
+    expect(inspect(env)).toMatch(/^Env \{/);
+    expect(inspect(env)).toContain("HOST: 'db.internal'");
+    expect(inspect(env.meta)).toContain('[REDACTED]');
+  });
+
+  it('masks sensitive fields of nested objects', () => {
+    const env = Env.fromZod(
+      { DB: z.object({ USER: z.string(), PASSWORD: e.secret() }) },
+      { DB__USER: 'app', DB__PASSWORD: 'hunter2-hunter2' },
+      { nestedDelimiter: '__' },
+    );
+
+    expect(JSON.parse(JSON.stringify(env.data))).toEqual({
+      DB: { USER: 'app', PASSWORD: '[REDACTED]' },
+    });
+    expect(env.meta.DB.nested).toEqual({
+      DB__USER: 'app',
+      DB__PASSWORD: '******** (15 chars)',
+    });
+    expect(env.reveal('DB').nested?.DB__PASSWORD).toBe('hunter2-hunter2');
+  });
+
+  it('masks the raw JSON of objects with sensitive fields', () => {
+    const env = Env.fromZod(
+      { DB: z.object({ U: z.string(), PW: e.secret() }) },
+      { DB: '{"U":"u","PW":"hunter22"}' },
+    );
+
+    expect(env.data.DB).toEqual({ U: 'u', PW: 'hunter22' });
+    expect(env.meta.DB.raw).toBe('******** (25 chars)');
+    expect(env.meta.DB.sensitive).toBeUndefined();
+    expect(inspect(env.meta)).not.toMatch(/hunter22/);
+    expect(env.reveal('DB').raw).toBe('{"U":"u","PW":"hunter22"}');
+  });
+
+  it('keeps masking on derived envs', () => {
+    const picked = Env.fromZod(schema, source).pick('PASSWORD');
+
+    expect(JSON.stringify(picked.data)).toBe('{"PASSWORD":"[REDACTED]"}');
+    expect(picked.reveal('PASSWORD').raw).toBe('hunter2-hunter2');
+  });
+
+  it('does not echo sensitive values in validation errors', () => {
+    const error = captureValidationError(() =>
+      Env.fromZod(
+        {
+          PASSWORD: e.secret().min(20),
+          TIMEOUT: e.sensitive(e.duration()),
+          CONFIG: e.sensitive(e.json(z.object({}))),
+        },
+        { PASSWORD: 'hunter2-hunter2', TIMEOUT: 'forever-and-ever', CONFIG: '{oops-secret' },
+      ),
+    );
+    const text = [error.message, JSON.stringify(error), JSON.stringify(error.issues)].join('\n');
+
+    expect(text).not.toMatch(/hunter2|forever-and-ever|oops-secret/);
+    expect(error.report.invalid.find((entry) => entry.key === 'PASSWORD')?.received).toBe(
+      '"********" (15 chars)',
+    );
+  });
+
+  it('leaves envs without sensitive fields untouched', () => {
+    const env = Env.fromZod({ HOST: z.string() }, { HOST: 'db' });
+
+    expect(Object.getOwnPropertyNames(env.data)).toEqual(['HOST']);
+    expect(JSON.stringify(env.data)).toBe('{"HOST":"db"}');
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod/v4';
+import { e, Env, envSchemas, getEnvSchemaMeta, parseBytes, parseDuration } from '../src';
+import { captureValidationError } from './helpers';
+
+function failure(schema: z.ZodObject, source: Record<string, string>) {
+  return captureValidationError(() => Env.fromZod(schema, source)).report;
+}
+
+describe('envSchemas', () => {
+  it('is aliased as e', () => {
+    expect(e).toBe(envSchemas);
+  });
+
+  it('accepts ports between 0 and 65535', () => {
+    const schema = z.object({ PORT: e.port() });
+
+    expect(Env.fromZod(schema, { PORT: '0' }).data.PORT).toBe(0);
+    expect(Env.fromZod(schema, { PORT: ' 65535 ' }).data.PORT).toBe(65535);
+    expect(failure(schema, { PORT: '65536' }).invalid[0]).toMatchObject({
+      variable: 'PORT',
+      expected: 'port',
+    });
+    expect(failure(schema, { PORT: '80.5' }).invalid).toHaveLength(1);
+    expect(failure(schema, { PORT: '-1' }).invalid).toHaveLength(1);
+  });
+
+  it('parses durations into milliseconds', () => {
+    expect(parseDuration('30s')).toBe(30_000);
+    expect(parseDuration('5m')).toBe(300_000);
+    expect(parseDuration('1h30m')).toBe(5_400_000);
+    expect(parseDuration('1h 30m 15s')).toBe(5_415_000);
+    expect(parseDuration('250ms')).toBe(250);
+    expect(parseDuration('1.5d')).toBe(129_600_000);
+    expect(parseDuration('1500')).toBe(1500);
+    expect(parseDuration('')).toBeUndefined();
+    expect(parseDuration('10 minutes')).toBeUndefined();
+    expect(parseDuration('-5s')).toBeUndefined();
+    expect(parseDuration('5S')).toBeUndefined();
+  });
+
+  it('parses byte sizes with decimal and binary units', () => {
+    expect(parseBytes('512KiB')).toBe(524_288);
+    expect(parseBytes('2GB')).toBe(2_000_000_000);
+    expect(parseBytes('1.5 MiB')).toBe(1_572_864);
+    expect(parseBytes('10kb')).toBe(10_000);
+    expect(parseBytes('42')).toBe(42);
+    expect(parseBytes('42B')).toBe(42);
+    expect(parseBytes('1KX')).toBeUndefined();
+    expect(parseBytes('KiB')).toBeUndefined();
+  });
+
+  it('coerces durations and byte sizes and keeps chained checks', () => {
+    const schema = z.object({
+      TIMEOUT: e.duration().max(60_000),
+      MAX_BODY: e.bytes().default(1024),
+    });
+
+    expect(Env.fromZod(schema, { TIMEOUT: '1m', MAX_BODY: '2MiB' }).data).toEqual({
+      TIMEOUT: 60_000,
+      MAX_BODY: 2_097_152,
+    });
+    expect(Env.fromZod(schema, { TIMEOUT: '45s' }).data.MAX_BODY).toBe(1024);
+    expect(failure(schema, { TIMEOUT: '2m' }).invalid[0].variable).toBe('TIMEOUT');
+  });
+
+  it('reports malformed durations with a single descriptive message', () => {
+    const report = failure(z.object({ TIMEOUT: e.duration() }), { TIMEOUT: '5 minutes' });
+
+    expect(report.invalid).toEqual([
+      expect.objectContaining({
+        variable: 'TIMEOUT',
+        expected: 'duration',
+        messages: ['Expected a duration such as "30s", "5m", or "1h30m" but found "5 minutes"'],
+      }),
+    ]);
+  });
+
+  it('limits URLs to the given protocols', () => {
+    const schema = z.object({ API_URL: e.url({ protocols: ['https:'] }) });
+
+    expect(Env.fromZod(schema, { API_URL: 'https://api.example.com' }).data.API_URL).toBe(
+      'https://api.example.com',
+    );
+    expect(failure(schema, { API_URL: 'http://api.example.com' }).invalid[0].messages).toEqual([
+      'Invalid URL: expected protocol https',
+    ]);
+    expect(failure(schema, { API_URL: 'not a url' }).invalid).toHaveLength(1);
+  });
+
+  it('reads comma-separated URL lists', () => {
+    const schema = z.object({ ORIGINS: e.urls({ protocols: ['http', 'https'] }) });
+
+    expect(Env.fromZod(schema, { ORIGINS: 'https://a.com, http://b.com' }).data.ORIGINS).toEqual([
+      'https://a.com',
+      'http://b.com',
+    ]);
+    expect(failure(schema, { ORIGINS: 'https://a.com,ftp://b.com' }).invalid).toHaveLength(1);
+  });
+
+  it('accepts hostnames and IP addresses for host()', () => {
+    const schema = z.object({ DB_HOST: e.host() });
+
+    for (const host of ['localhost', 'db.internal', '10.0.0.12', '::1']) {
+      expect(Env.fromZod(schema, { DB_HOST: host }).data.DB_HOST).toBe(host);
+    }
+    for (const host of ['http://db', 'db:5432', 'bad_host.com', '']) {
+      expect(failure(schema, { DB_HOST: host }).invalid).toHaveLength(1);
+    }
+  });
+
+  it('parses JSON values with json(schema) and reports malformed JSON as an issue', () => {
+    const schema = z.object({
+      LIMITS: e.json(z.array(z.number())),
+      LABEL: e.json(z.string()).optional(),
+    });
+
+    expect(Env.fromZod(schema, { LIMITS: '[1, 2]', LABEL: '"a,b"' }).data).toEqual({
+      LIMITS: [1, 2],
+      LABEL: 'a,b',
+    });
+    expect(failure(schema, { LIMITS: '1,2' }).invalid[0]).toMatchObject({
+      variable: 'LIMITS',
+      messages: [expect.stringMatching(/^Invalid JSON: /)],
+    });
+  });
+
+  it('matches enumCI values ignoring case', () => {
+    const schema = z.object({ LOG_LEVEL: e.enumCI(['debug', 'info', 'warn']) });
+
+    expect(Env.fromZod(schema, { LOG_LEVEL: ' INFO ' }).data.LOG_LEVEL).toBe('info');
+    expect(failure(schema, { LOG_LEVEL: 'verbose' }).invalid[0].expected).toBe(
+      'one of "debug" | "info" | "warn" (case-insensitive)',
+    );
+  });
+
+  it('requires secrets to be non-empty', () => {
+    const schema = z.object({ API_KEY: e.secret() });
+
+    expect(Env.fromZod(schema, { API_KEY: 's3cret' }).data.API_KEY).toBe('s3cret');
+    expect(failure(schema, { API_KEY: '' }).invalid).toHaveLength(1);
+  });
+
+  it('exposes metadata through wrappers and chained checks', () => {
+    expect(getEnvSchemaMeta(e.port().default(3000))).toEqual({
+      envType: 'port',
+      description: 'TCP/UDP port (0-65535)',
+      example: '8080',
+    });
+    expect(getEnvSchemaMeta(e.duration().max(1000).describe('Request timeout'))).toMatchObject({
+      envType: 'duration',
+      description: 'Request timeout',
+    });
+    expect(getEnvSchemaMeta(e.secret().optional())).toMatchObject({ sensitive: true });
+    expect(getEnvSchemaMeta(e.json(z.object({}).describe('Feature flags')))).toMatchObject({
+      envType: 'json',
+      description: 'Feature flags',
+    });
+    expect(getEnvSchemaMeta(z.number())).toBeUndefined();
+  });
+});
+
+describe('encoded values', () => {
+  const toBase64 = (text: string) => btoa(text);
+
+  it('decodes base64 before JSON-parsing object schemas', () => {
+    const raw = toBase64(JSON.stringify({ client_email: 'svc@example.com', port: 443 }));
+    const env = Env.fromZod(
+      { SERVICE_ACCOUNT: e.base64(z.object({ client_email: z.string(), port: z.number() })) },
+      { SERVICE_ACCOUNT: raw },
+    );
+
+    expect(env.data.SERVICE_ACCOUNT).toEqual({ client_email: 'svc@example.com', port: 443 });
+    expect(env.meta.SERVICE_ACCOUNT.raw).toBe(raw);
+    expect(env.meta.SERVICE_ACCOUNT.encoding).toEqual(['base64']);
+  });
+
+  it('accepts URL-safe, unpadded, and line-wrapped base64', () => {
+    const schema = z.object({ VALUE: e.base64(z.string()) });
+
+    expect(Env.fromZod(schema, { VALUE: 'Pz8-' }).data.VALUE).toBe('??>');
+    expect(Env.fromZod(schema, { VALUE: 'aGk' }).data.VALUE).toBe('hi');
+    expect(Env.fromZod(schema, { VALUE: 'aGVs\nbG8=' }).data.VALUE).toBe('hello');
+  });
+
+  it('decodes hex and coerces the decoded value for the inner schema', () => {
+    const env = Env.fromZod(
+      { LIMIT: e.hex(z.number()), NAME: e.hex(z.string()).optional() },
+      { LIMIT: '3432', NAME: '0x6869' },
+    );
+
+    expect(env.data).toEqual({ LIMIT: 42, NAME: 'hi' });
+  });
+
+  it('turns literal \\n escapes into line breaks', () => {
+    const env = Env.fromZod(
+      { TLS_KEY: e.unescapeNewlines(z.string().startsWith('-----BEGIN')) },
+      { TLS_KEY: '-----BEGIN KEY-----\\nabc\\r\\ndef\\n-----END KEY-----' },
+    );
+
+    expect(env.data.TLS_KEY).toBe('-----BEGIN KEY-----\nabc\ndef\n-----END KEY-----');
+  });
+
+  it('applies nested encodings outermost first', () => {
+    const pem = '-----BEGIN KEY-----\\nabc';
+    const env = Env.fromZod(
+      { TLS_KEY: e.base64(e.unescapeNewlines(z.string())) },
+      { TLS_KEY: toBase64(pem) },
+    );
+
+    expect(env.data.TLS_KEY).toBe('-----BEGIN KEY-----\nabc');
+    expect(env.meta.TLS_KEY.encoding).toEqual(['base64', 'unescapeNewlines']);
+  });
+
+  it('reports decoding failures as issues on the key', () => {
+    const schema = z.object({
+      ACCOUNT: e.base64(z.object({ id: z.string() })),
+      TOKEN: e.hex(z.string()),
+      BINARY: e.base64(z.string()),
+    });
+    const report = failure(schema, { ACCOUNT: 'not base64!', TOKEN: 'abc', BINARY: '//8=' });
+
+    expect(report.invalid.map(({ variable, messages }) => ({ variable, messages }))).toEqual([
+      { variable: 'ACCOUNT', messages: ['Invalid base64 value'] },
+      { variable: 'TOKEN', messages: ['Invalid hex value'] },
+      { variable: 'BINARY', messages: ['Decoded base64 value is not UTF-8 text'] },
+    ]);
+  });
+
+  it('validates the decoded value against the inner schema', () => {
+    const report = failure(z.object({ ACCOUNT: e.base64(z.object({ id: z.string() })) }), {
+      ACCOUNT: toBase64('{"id":1}'),
+    });
+
+    expect(report.invalid[0].variable).toBe('ACCOUNT');
+    expect(report.invalid[0].messages).toHaveLength(1);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod/v4';
+import { e, Env } from '../src';
+
+const schema = z.object({
+  API_PORT: e.port(),
+  LOG_LEVEL: z.enum(['debug', 'info']).default('info'),
+  API_KEY: e.secret(),
+  SENTRY_DSN: z.url().optional(),
+});
+const source = { API_PORT: '8080', API_KEY: 'abcdefgh' };
+
+describe('toObject', () => {
+  it('returns a plain object with sensitive values redacted', () => {
+    const object = Env.fromZod(schema, source).toObject();
+
+    expect(object).toEqual({
+      API_PORT: 8080,
+      LOG_LEVEL: 'info',
+      API_KEY: '[REDACTED]',
+      SENTRY_DSN: undefined,
+    });
+    expect(Object.getOwnPropertyDescriptor(object, 'API_PORT')).toHaveProperty('value', 8080);
+    expect(structuredClone(object)).toEqual(object);
+  });
+
+  it('uses camelCase names and real values on request', () => {
+    const object = Env.fromZod(schema, source).toObject({ keys: 'camel', redact: false });
+
+    expect(object).toEqual({ apiPort: 8080, logLevel: 'info', apiKey: 'abcdefgh' });
+  });
+
+  it('includes transform outputs only with includeDerived', () => {
+    const transformed = schema.transform((values) => ({
+      ...values,
+      API_ORIGIN: `http://localhost:${values.API_PORT}`,
+    }));
+    const env = Env.fromZod(transformed, source);
+
+    expect(env.toObject()).not.toHaveProperty('API_ORIGIN');
+    expect(env.toObject({ includeDerived: true })).toMatchObject({
+      API_ORIGIN: 'http://localhost:8080',
+    });
+    expect(env.toObject({ keys: 'camel', includeDerived: true })).toMatchObject({
+      apiOrigin: 'http://localhost:8080',
+      apiKey: '[REDACTED]',
+    });
+  });
+});
+
+describe('toJSON', () => {
+  it('serializes declared values safely and never the source', () => {
+    const env = Env.fromZod(schema, { ...source, UNRELATED_SECRET: 'zzz' });
+
+    expect(JSON.parse(JSON.stringify(env))).toEqual({
+      API_PORT: 8080,
+      LOG_LEVEL: 'info',
+      API_KEY: '[REDACTED]',
+    });
+  });
+
+  it('writes bigints, maps, and sets without losing data', () => {
+    const env = Env.fromZod(
+      {
+        MAX: z.bigint(),
+        LIMITS: z.map(z.string(), z.bigint()),
+        TAGS: z.set(z.string()),
+        QUOTA: z.object({ BYTES: z.bigint() }),
+      },
+      { MAX: '9007199254740993', LIMITS: 'a=1', TAGS: 'x,y', QUOTA__BYTES: '2' },
+      { nestedDelimiter: '__' },
+    );
+
+    expect(JSON.parse(JSON.stringify(env))).toEqual({
+      MAX: '9007199254740993',
+      LIMITS: { a: '1' },
+      TAGS: ['x', 'y'],
+      QUOTA: { BYTES: '2' },
+    });
+  });
+});
+
+describe('summary', () => {
+  it('renders an aligned table of names, sources, types, and values', () => {
+    const env = Env.fromZod(schema, source);
+
+    expect(env.summary()).toBe(
+      [
+        'NAME        SOURCE   TYPE                     VALUE',
+        'API_PORT    set      port                     8080',
+        'LOG_LEVEL   default  one of "debug" | "info"  info',
+        'API_KEY     set      string                   [REDACTED]',
+        'SENTRY_DSN  missing  url                      -',
+      ].join('\n'),
+    );
+  });
+
+  it('reports source variable names and truncates long values', () => {
+    const env = Env.fromZod(
+      { NOTES: z.string(), TAGS: z.array(z.string()) },
+      { APP_NOTES: 'x'.repeat(80), APP_TAGS: 'a,b' },
+      { prefix: 'APP_' },
+    );
+    const [, notes, tags] = env.summary().split('\n');
+
+    expect(notes).toMatch(/^APP_NOTES {2}set {5}string {2}x{59}…$/);
+    expect(tags).toMatch(/^APP_TAGS {3}set {5}list {4}\["a","b"\]$/);
+  });
+
+  it('renders bigints inside objects and maps', () => {
+    const env = Env.fromZod(
+      { LIMITS: z.map(z.string(), z.bigint()), QUOTA: z.object({ BYTES: z.bigint() }) },
+      { LIMITS: 'a=1', QUOTA__BYTES: '2' },
+      { nestedDelimiter: '__' },
+    );
+    const [, limits, quota] = env.summary().split('\n');
+
+    expect(limits).toMatch(/ \{"a":"1"\}$/);
+    expect(quota).toMatch(/ \{"BYTES":"2"\}$/);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod/v4';
+import { composeSources, Env, loadDotenv, parseDotenv } from '../src';
+import { readEnvFile } from '../src/node';
+
+describe('composeSources', () => {
+  it('lets later layers win and records the winning layer and shadowed values', () => {
+    const source = composeSources([
+      {
+        name: 'defaults',
+        source: parseDotenv('PORT=3000\nHOST=0.0.0.0', { filename: 'defaults' }),
+      },
+      { name: '.env', source: parseDotenv('\nPORT=4000', { filename: '.env' }) },
+      { name: '.env.local', source: undefined },
+      { name: 'process.env', source: { PORT: '5000', HOST: undefined, EXTRA: 'x' } },
+    ]);
+
+    expect(source).toEqual({ PORT: '5000', HOST: '0.0.0.0', EXTRA: 'x' });
+
+    const env = Env.fromZod(
+      { PORT: z.number(), HOST: z.string(), MISSING: z.string().optional() },
+      source,
+    );
+
+    expect(env.meta.PORT).toEqual({
+      name: 'PORT',
+      val: 5000,
+      raw: '5000',
+      origin: { layer: 'process.env' },
+      shadowed: [
+        { layer: 'defaults', file: 'defaults', line: 1, raw: '3000' },
+        { layer: '.env', file: '.env', line: 2, raw: '4000' },
+      ],
+    });
+    expect(env.meta.HOST.origin).toEqual({ layer: 'defaults', file: 'defaults', line: 2 });
+    expect(env.meta.HOST.shadowed).toBeUndefined();
+    expect(env.meta.MISSING.origin).toBeUndefined();
+  });
+
+  it('keeps provenance on derived envs', () => {
+    const source = composeSources([
+      { name: 'base', source: { A: '1', B: '2' } },
+      { name: 'override', source: { B: '3' } },
+    ]);
+
+    const subset = Env.fromZod({ A: z.number(), B: z.number() }, source).omit('A');
+
+    expect(subset.meta.B.origin).toEqual({ layer: 'override' });
+    expect(subset.meta.B.shadowed).toEqual([{ layer: 'base', raw: '2' }]);
+  });
+
+  it('copies values rather than observing later layer mutations', () => {
+    const live: Record<string, string | undefined> = { FOO: 'before' };
+    const source = composeSources([{ name: 'live', source: live }]);
+
+    live.FOO = 'after';
+
+    expect(source.FOO).toBe('before');
+  });
+
+  it('rejects duplicate layer names', () => {
+    expect(() =>
+      composeSources([
+        { name: '.env', source: {} },
+        { name: '.env', source: {} },
+      ]),
+    ).toThrowError(/composeSources\(\): duplicate layer name "\.env"/);
+  });
+
+  it('skips optional dotenv files that do not exist', () => {
+    const options = { readFile: readEnvFile };
+
+    expect(loadDotenv({ path: '/definitely/not/here/.env', optional: true }, options)).toEqual({});
+    expect(() => loadDotenv({ path: '/definitely/not/here/.env' }, options)).toThrowError(
+      'Env: dotenv file "/definitely/not/here/.env" does not exist',
+    );
+  });
+});
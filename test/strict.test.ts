@@ -0,0 +1,190 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod/v4';
+import { Env, EnvUndeclaredVariableError } from '../src';
+
+describe('strict option', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('throws for prefixed variables the schema does not declare', () => {
+    const schema = { DATABASE_URL: z.string(), PORT: z.number().default(3000) };
+    const source = { APP_DATABASE_URL: 'postgres://db', APP_PROT: '8080', HOME: '/root' };
+
+    expect(() => Env.fromZod(schema, source, { prefix: 'APP_', strict: true })).toThrow(
+      expect.objectContaining({
+        name: 'EnvUndeclaredVariableError',
+        undeclared: [{ variable: 'APP_PROT', suggestion: 'APP_PORT' }],
+        message:
+          'Env: 1 undeclared variable in strict mode:\n  - APP_PROT (did you mean APP_PORT?)',
+      }),
+    );
+  });
+
+  it('scans variables sharing the leading segment of a declared key without a prefix', () => {
+    const run = () =>
+      Env.fromZod(
+        { DATABASE_URL: z.string(), DATABASE_POOL: z.number().optional() },
+        {
+          DATABASE_URL: 'postgres://db',
+          DATABASE_POLL: '5',
+          DATABASE_REPLICA_HOST: 'r',
+          PATH: '/',
+        },
+        { strict: true },
+      );
+
+    expect(run).toThrow(EnvUndeclaredVariableError);
+    expect(run).toThrow(
+      expect.objectContaining({
+        undeclared: [
+          { variable: 'DATABASE_POLL', suggestion: 'DATABASE_POOL' },
+          { variable: 'DATABASE_REPLICA_HOST' },
+        ],
+      }),
+    );
+  });
+
+  it('flags near misses of declared names even outside any prefix', () => {
+    expect(() =>
+      Env.fromZod(
+        { DATABASE_URL: z.string().default('postgres://localhost') },
+        { DATABSE_URL: 'postgres://prod' },
+        { strict: true },
+      ),
+    ).toThrow('DATABSE_URL (did you mean DATABASE_URL?)');
+  });
+
+  it('does not scan namespaces a single declared key or the runtime owns', () => {
+    const env = Env.fromZod(
+      { NODE_ENV: z.string(), DATABASE_URL: z.string(), HOST: z.string() },
+      {
+        NODE_ENV: 'production',
+        NODE_OPTIONS: '--max-old-space-size=4096',
+        DATABASE_URL: 'postgres://db',
+        DATABASE_REPLICA_URL: 'postgres://replica',
+        HOST: 'localhost',
+        HOME: '/root',
+      },
+      { strict: true },
+    );
+
+    expect(env.data.NODE_ENV).toBe('production');
+  });
+
+  it('scans variables matching a configured pattern', () => {
+    expect(() =>
+      Env.fromZod(
+        { DATABASE_URL: z.string().default('postgres://localhost') },
+        { DATABSE_URL: 'postgres://prod' },
+        { strict: { pattern: /^DATA/ } },
+      ),
+    ).toThrow('DATABSE_URL (did you mean DATABASE_URL?)');
+  });
+
+  it('skips allowlisted variables', () => {
+    const env = Env.fromZod(
+      { APP_PORT: z.number() },
+      { APP_PORT: '80', APP_VERSION: '1.2.3', APP_BUILD_SHA: 'abc' },
+      { strict: { allow: ['APP_VERSION', /^APP_BUILD_/] } },
+    );
+
+    expect(env.data.APP_PORT).toBe(80);
+  });
+
+  it('warns instead of throwing at the warn level', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const onWarning = vi.fn();
+
+    const env = Env.fromZod(
+      { APP_PORT: z.number() },
+      { APP_PORT: '80', APP_PROT: '81' },
+      { strict: { level: 'warn' }, onWarning },
+    );
+
+    expect(env.data.APP_PORT).toBe(80);
+    expect(env.warnings).toEqual([
+      {
+        code: 'UNDECLARED_VARIABLE',
+        variable: 'APP_PROT',
+        message: 'Env: undeclared variable APP_PROT (did you mean APP_PORT?)',
+      },
+    ]);
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('reports undeclared variables before validation errors', () => {
+    expect(() => Env.fromZod({ APP_URL: z.string() }, { APP_ULR: 'x' }, { strict: true })).toThrow(
+      EnvUndeclaredVariableError,
+    );
+  });
+
+  it('treats aliases, file secrets, and nested variables as declared', () => {
+    const env = Env.fromZod(
+      {
+        APP_DB: z.object({ HOST: z.string() }),
+        APP_TOKEN: z.string().optional(),
+        APP_URL: z.string(),
+      },
+      { APP_DB__HOST: 'db', APP_TOKEN_FILE: '/dev/null', APP_LEGACY_URL: 'https://app' },
+      {
+        strict: true,
+        nestedDelimiter: '__',
+        fileSecrets: true,
+        readFile: () => '',
+        aliases: { APP_URL: ['APP_LEGACY_URL'] },
+      },
+    );
+
+    expect(env.data).toEqual({ APP_DB: { HOST: 'db' }, APP_TOKEN: '', APP_URL: 'https://app' });
+    expect(() =>
+      Env.fromZod(
+        { APP_DB: z.object({ HOST: z.string() }) },
+        { APP_DB__HSOT: 'db' },
+        { strict: true, nestedDelimiter: '__' },
+      ),
+    ).toThrow('APP_DB__HSOT (did you mean APP_DB__HOST?)');
+  });
+
+  it('treats variables referenced through expansion as declared', () => {
+    const schema = { DATABASE_URL: z.url(), DB_POOL_MAX: z.number(), DB_SSL: z.boolean() };
+    const source = {
+      DATABASE_URL: 'postgres://${DB_USER}:${DB_PASS}@${DB_HOST}/app',
+      DB_USER: 'app',
+      DB_PASS: 'pw',
+      DB_HOST: 'db',
+      DB_POOL_MAX: '10',
+      DB_SSL: 'true',
+    };
+    const env = Env.fromZod(schema, source, { expand: true, strict: true });
+
+    expect(env.data.DATABASE_URL).toBe('postgres://app:pw@db/app');
+    expect(() =>
+      Env.fromZod(schema, { ...source, DB_HSOT: 'db' }, { expand: true, strict: true }),
+    ).toThrow('DB_HSOT (did you mean DB_HOST?)');
+  });
+
+  it('does not repeat the scan for derived envs', () => {
+    const env = Env.fromZod(
+      { APP_PORT: z.number(), APP_HOST: z.string() },
+      { APP_PORT: '80', APP_HOST: 'localhost' },
+      { strict: true },
+    );
+
+    expect(env.pick('APP_PORT').data).toEqual({ APP_PORT: 80 });
+    expect(env.omit('APP_PORT').data).toEqual({ APP_HOST: 'localhost' });
+  });
+
+  it('applies to async factories', async () => {
+    await expect(
+      Env.fromZodAsync(
+        { APP_PORT: z.number() },
+        { APP_PORT: '80', APP_PORTS: '81' },
+        {
+          strict: true,
+        },
+      ),
+    ).rejects.toThrow('APP_PORTS (did you mean APP_PORT?)');
+  });
+});
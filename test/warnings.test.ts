@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod/v4';
+import { Env, EnvValidationError, EnvWarningError } from '../src';
+
+describe('warnings', () => {
+  it('collects warnings on the env instance', () => {
+    const env = Env.fromZod(
+      {
+        API_URL: z.string(),
+        api_url: z.string(),
+        TAGS: z.unknown(),
+        NAME: z.string(),
+        PORT: z.number().default(3000),
+      },
+      { API_URL: 'a', api_url: 'b', TAGS: '[oops', NAME: '  ' },
+    );
+
+    expect(env.warnings).toEqual([
+      {
+        code: 'JSON_FALLBACK',
+        key: 'TAGS',
+        message: expect.stringMatching(
+          /^Env: TAGS is not valid JSON \(.+\); using the raw string$/,
+        ),
+      },
+      { code: 'BLANK_VALUE', key: 'NAME', message: 'Env: NAME is set but blank' },
+      {
+        code: 'DEFAULT_USED',
+        key: 'PORT',
+        message: 'Env: PORT is not set; using the schema default',
+      },
+      {
+        code: 'CAMEL_COLLISION',
+        key: 'api_url',
+        message: 'Env: api_url and API_URL both map to camel.apiUrl; it reads API_URL',
+      },
+    ]);
+    expect(env.camel.apiUrl).toBe('a');
+    expect(env.data.TAGS).toBe('[oops');
+    expect(Object.isFrozen(env.warnings)).toBe(true);
+  });
+
+  it('is empty when nothing is wrong', () => {
+    const env = Env.fromZod({ PORT: z.number() }, { PORT: '80' });
+
+    expect(env.warnings).toEqual([]);
+  });
+
+  it('reports the source variable for prefixed and nested keys', () => {
+    const env = Env.fromZod(
+      { DB: z.object({ HOST: z.string() }), LEVEL: z.string().default('info') },
+      { APP_DB__HOST: '' },
+      { prefix: 'APP_', nestedDelimiter: '__' },
+    );
+
+    expect(env.warnings.map(({ code, variable }) => ({ code, variable }))).toEqual([
+      { code: 'BLANK_VALUE', variable: 'APP_DB__HOST' },
+      { code: 'DEFAULT_USED', variable: 'APP_LEVEL' },
+    ]);
+  });
+
+  it('calls onWarning as warnings are raised, even if validation then fails', () => {
+    const onWarning = vi.fn();
+
+    expect(() =>
+      Env.fromZod({ CONFIG: z.object({ a: z.number() }) }, { CONFIG: '{a:1}' }, { onWarning }),
+    ).toThrow(EnvValidationError);
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    expect(onWarning).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'JSON_FALLBACK', key: 'CONFIG' }),
+    );
+  });
+
+  it('promotes individual codes to errors', () => {
+    const run = () =>
+      Env.fromZod(
+        { NAME: z.string(), PORT: z.number().default(80) },
+        { NAME: '' },
+        {
+          warnings: { BLANK_VALUE: 'throw' },
+        },
+      );
+
+    expect(run).toThrow(EnvWarningError);
+    expect(run).toThrow(
+      expect.objectContaining({ code: 'BLANK_VALUE', message: 'Env: NAME is set but blank' }),
+    );
+  });
+
+  it('drops ignored codes', () => {
+    const onWarning = vi.fn();
+    const env = Env.fromZod(
+      { PORT: z.number().default(80) },
+      {},
+      {
+        onWarning,
+        warnings: { DEFAULT_USED: 'ignore' },
+      },
+    );
+
+    expect(env.warnings).toEqual([]);
+    expect(onWarning).not.toHaveBeenCalled();
+  });
+
+  it('collects on derived envs without notifying twice', () => {
+    const onWarning = vi.fn();
+    const env = Env.fromZod(
+      { NAME: z.string(), PORT: z.number().default(80) },
+      { NAME: ' ' },
+      { onWarning },
+    );
+    const picked = env.pick('NAME');
+
+    expect(picked.warnings.map((warning) => warning.code)).toEqual(['BLANK_VALUE']);
+    expect(onWarning).toHaveBeenCalledTimes(2);
+  });
+
+  it('supports async factories', async () => {
+    const onWarning = vi.fn();
+    const env = await Env.fromZodAsync(
+      { TOKEN: z.string(), PORT: z.number().default(80) },
+      { TOKEN: 'vault://token' },
+      { resolvers: { vault: () => '' }, onWarning },
+    );
+
+    expect(env.warnings.map((warning) => warning.code)).toEqual(['BLANK_VALUE', 'DEFAULT_USED']);
+    expect(onWarning).toHaveBeenCalledTimes(2);
+  });
+});